@@ -1,12 +1,16 @@
 import Hero from './components/Hero';
+import HacktoberfestProgress from './components/HacktoberfestProgress';
 import TaskBoard from './components/TaskBoard';
+import AdminConsole from './components/AdminConsole';
 import Footer from './components/Footer';
 
 function App() {
   return (
     <div className="min-h-screen bg-gray-50">
       <Hero />
+      <HacktoberfestProgress />
       <TaskBoard />
+      <AdminConsole />
       <Footer />
     </div>
   );
@@ -0,0 +1,436 @@
+import { useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, Github, Loader2, Pencil, Plus, Search, ShieldCheck, Tags, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useMaintainer } from '../hooks/useMaintainer';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import { TASK_DIFFICULTY_LABELS } from '../../supabase/functions/_shared/labelMapping.ts';
+import { normalizeSearchQuery } from '../../supabase/functions/_shared/search.ts';
+import { draftToTask, parseLabelInput, relabel, type TaskDraft } from '../../supabase/functions/_shared/taskAdmin.ts';
+import { TASK_LIST_COLUMNS } from '../../supabase/functions/_shared/taskPages.ts';
+import { TASK_STATUSES, TASK_STATUS_LABELS, restoreTask, type TaskStatus } from '../../supabase/functions/_shared/taskStatus.ts';
+import { difficultyColors, statusColors } from '../lib/taskColors';
+import type { Repository } from '../types/repository';
+import type { Task } from '../types/task';
+import TaskForm from './TaskForm';
+
+/** How many tasks the console lists; narrow down with search or status. */
+const ADMIN_LIST_LIMIT = 100;
+
+type Editing = { id: string | null; draft: TaskDraft; published: boolean };
+
+function emptyDraft(repository: string): TaskDraft {
+  return {
+    title: '',
+    description: '',
+    repository,
+    difficulty: 'good-first-issue',
+    category: 'utility',
+    labels: [],
+    estimated_time: '',
+  };
+}
+
+export default function AdminConsole() {
+  const { login } = useAuth();
+  const maintainer = useMaintainer(login);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [repositories, setRepositories] = useState<Repository[]>([]);
+  const [status, setStatus] = useState<TaskStatus | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const search = useDebouncedValue(query);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [addLabels, setAddLabels] = useState('');
+  const [removeLabels, setRemoveLabels] = useState('');
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [version, setVersion] = useState(0);
+  const refresh = useDebouncedValue(version, 1000);
+
+  useTaskChanges(() => setVersion((current) => current + 1));
+
+  useEffect(() => {
+    if (!maintainer) return;
+
+    supabase
+      .from('repositories')
+      .select('*')
+      .eq('active', true)
+      .order('created_at')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching repositories:', error);
+          return;
+        }
+        setRepositories(data || []);
+      });
+  }, [maintainer]);
+
+  useEffect(() => {
+    if (!maintainer) return;
+    let cancelled = false;
+
+    async function fetchTasks() {
+      let request = supabase.from('tasks').select(TASK_LIST_COLUMNS);
+      if (status !== 'all') {
+        request = request.eq('status', status);
+      }
+      const text = normalizeSearchQuery(search);
+      if (text) {
+        request = request.textSearch('search_vector', text, { config: 'english', type: 'websearch' });
+      }
+
+      const { data, error } = await request
+        .order('updated_at', { ascending: false })
+        .limit(ADMIN_LIST_LIMIT)
+        .returns<Task[]>();
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching tasks:', error);
+      } else {
+        setTasks(data || []);
+      }
+      setLoading(false);
+    }
+
+    fetchTasks();
+    return () => {
+      cancelled = true;
+    };
+  }, [maintainer, status, search, refresh]);
+
+  if (!maintainer) {
+    return null;
+  }
+
+  function toggleSelected(id: string) {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  async function startEditing(task: Task) {
+    const { data, error } = await supabase.from('tasks').select('*').eq('id', task.id).maybeSingle();
+    if (error || !data) {
+      console.error('Error fetching task:', error);
+      setMessage({ text: `Could not load "${task.title}".`, error: true });
+      return;
+    }
+
+    setEditing({
+      id: data.id,
+      published: Boolean(data.github_issue_url),
+      draft: {
+        title: data.title,
+        description: data.description ?? '',
+        repository: data.repository,
+        difficulty: data.difficulty,
+        category: data.category,
+        labels: data.labels ?? [],
+        estimated_time: data.estimated_time ?? '',
+      },
+    });
+  }
+
+  async function publish(id: string): Promise<boolean> {
+    const { data, error } = await supabase.functions.invoke('publish-task', { body: { task_id: id } });
+    if (error) {
+      console.error('Error publishing task:', error);
+      return false;
+    }
+    return Boolean(data?.issueUrl);
+  }
+
+  async function saveTask(draft: TaskDraft, shouldPublish: boolean) {
+    if (!editing) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const fields = draftToTask(draft);
+      let id = editing.id;
+      if (id) {
+        const { error } = await supabase.from('tasks').update(fields).eq('id', id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('tasks').insert({ ...fields, status: 'open' }).select('id').single();
+        if (error) throw error;
+        id = data.id as string;
+      }
+
+      if (shouldPublish && !(await publish(id))) {
+        setMessage({ text: `Saved "${fields.title}", but it could not be published to GitHub.`, error: true });
+      } else {
+        setMessage({ text: `Saved "${fields.title}".`, error: false });
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving task:', error);
+      setMessage({ text: 'Could not save the task.', error: true });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function setArchived(task: Task, archived: boolean) {
+    const next = archived
+      ? { status: 'archived' as const }
+      : restoreTask({ status: task.status, claimed_by: task.claimed_by ?? null });
+    if (!next) return;
+
+    const { error } = await supabase.from('tasks').update(next).eq('id', task.id);
+
+    if (error) {
+      console.error('Error archiving task:', error);
+      setMessage({ text: `Could not ${archived ? 'archive' : 'restore'} "${task.title}".`, error: true });
+    }
+  }
+
+  async function publishExisting(task: Task) {
+    setBusy(true);
+    const published = await publish(task.id);
+    setBusy(false);
+    setMessage(
+      published
+        ? { text: `Published "${task.title}" to GitHub.`, error: false }
+        : { text: `Could not publish "${task.title}" to GitHub.`, error: true }
+    );
+  }
+
+  async function applyRelabel() {
+    const add = parseLabelInput(addLabels);
+    const remove = parseLabelInput(removeLabels);
+    const targets = tasks.filter((task) => selected.has(task.id));
+    if (targets.length === 0 || (add.length === 0 && remove.length === 0)) return;
+
+    setBusy(true);
+    setMessage(null);
+    const results = await Promise.all(
+      targets.map((task) =>
+        supabase
+          .from('tasks')
+          .update({ labels: relabel(task.labels, add, remove) })
+          .eq('id', task.id)
+      )
+    );
+    setBusy(false);
+
+    const failed = results.filter((result) => result.error).length;
+    if (failed > 0) {
+      console.error('Error relabeling tasks:', results.find((result) => result.error)?.error);
+    }
+    setMessage(
+      failed > 0
+        ? { text: `Relabeled ${targets.length - failed} of ${targets.length} tasks.`, error: true }
+        : { text: `Relabeled ${targets.length} ${targets.length === 1 ? 'task' : 'tasks'}.`, error: false }
+    );
+    setSelected(new Set());
+    setAddLabels('');
+    setRemoveLabels('');
+  }
+
+  return (
+    <section id="admin" className="bg-white py-16 border-t border-gray-200">
+      <div className="mx-auto max-w-7xl px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="flex items-center gap-2 text-2xl font-bold tracking-tight text-gray-900">
+            <ShieldCheck className="h-6 w-6 text-blue-600" />
+            Maintainer console
+          </h2>
+          <button
+            onClick={() => setEditing({ id: null, published: false, draft: emptyDraft(repositories[0]?.full_name ?? '') })}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-500"
+          >
+            <Plus className="h-4 w-4" />
+            New task
+          </button>
+        </div>
+
+        {message && (
+          <div
+            role="status"
+            className={`mb-6 flex items-center justify-between rounded-lg border px-4 py-3 text-sm ${
+              message.error ? 'border-red-200 bg-red-50 text-red-700' : 'border-green-200 bg-green-50 text-green-700'
+            }`}
+          >
+            {message.text}
+            <button onClick={() => setMessage(null)} aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {editing && (
+          <div className="mb-8 rounded-xl border border-gray-200 bg-gray-50 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{editing.id ? 'Edit task' : 'New task'}</h3>
+            <TaskForm
+              key={editing.id ?? 'new'}
+              initial={editing.draft}
+              repositories={repositories}
+              canPublish={!editing.published}
+              busy={busy}
+              submitLabel={editing.id ? 'Save changes' : 'Create task'}
+              onSubmit={saveTask}
+              onCancel={() => setEditing(null)}
+            />
+            {editing.published && (
+              <p className="mt-4 text-xs text-gray-500">
+                This task has a GitHub issue. Edits to the issue on GitHub will overwrite changes made here.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="relative flex-1 min-w-[16rem]">
+            <span className="sr-only">Search tasks</span>
+            <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search tasks"
+              className="w-full rounded-lg border border-gray-200 py-2 pl-9 pr-3 text-sm focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+          </label>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as TaskStatus | 'all')}
+            className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700"
+          >
+            <option value="all">Any status</option>
+            {TASK_STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {TASK_STATUS_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 rounded-lg bg-blue-50 px-4 py-3 text-sm">
+            <Tags className="h-4 w-4 text-blue-600" />
+            <span className="font-medium text-gray-900">{selected.size} selected</span>
+            <input
+              value={addLabels}
+              onChange={(e) => setAddLabels(e.target.value)}
+              placeholder="Add labels"
+              className="rounded-lg border border-gray-200 px-3 py-1.5"
+            />
+            <input
+              value={removeLabels}
+              onChange={(e) => setRemoveLabels(e.target.value)}
+              placeholder="Remove labels"
+              className="rounded-lg border border-gray-200 px-3 py-1.5"
+            />
+            <button
+              onClick={applyRelabel}
+              disabled={busy}
+              className="px-3 py-1.5 rounded-lg bg-blue-600 font-medium text-white hover:bg-blue-500 disabled:opacity-60"
+            >
+              Apply
+            </button>
+            <button onClick={() => setSelected(new Set())} className="text-gray-600 hover:text-gray-900">
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : tasks.length === 0 ? (
+          <p className="py-12 text-center text-gray-600">No tasks match.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium uppercase tracking-wide text-gray-500">
+                <tr>
+                  <th className="px-4 py-3">
+                    <span className="sr-only">Select</span>
+                  </th>
+                  <th className="px-4 py-3">Task</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Difficulty</th>
+                  <th className="px-4 py-3">Labels</th>
+                  <th className="px-4 py-3">
+                    <span className="sr-only">Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {tasks.map((task) => (
+                  <tr key={task.id}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(task.id)}
+                        onChange={() => toggleSelected(task.id)}
+                        aria-label={`Select ${task.title}`}
+                        className="rounded border-gray-300 text-blue-600"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{task.title}</div>
+                      <div className="text-xs text-gray-500">{task.repository}</div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${statusColors[task.status]}`}>
+                        {TASK_STATUS_LABELS[task.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium border ${difficultyColors[task.difficulty]}`}>
+                        {TASK_DIFFICULTY_LABELS[task.difficulty]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600">{task.labels.join(', ')}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-1">
+                        <button
+                          onClick={() => startEditing(task)}
+                          title="Edit"
+                          className="rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        {!task.github_issue_url && (
+                          <button
+                            onClick={() => publishExisting(task)}
+                            disabled={busy}
+                            title="Publish to GitHub"
+                            className="rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-60"
+                          >
+                            <Github className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setArchived(task, task.status !== 'archived')}
+                          title={task.status === 'archived' ? 'Restore' : 'Archive'}
+                          className="rounded p-1.5 text-gray-500 hover:bg-gray-100 hover:text-gray-900"
+                        >
+                          {task.status === 'archived' ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface AnimatedNumberProps {
+  value: number;
+  decimals?: number;
+  /** Animation length in milliseconds. */
+  duration?: number;
+}
+
+function easeOutCubic(t: number) {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+/**
+ * Counts up (or down) to `value` whenever it changes. Shows the value right
+ * away for users who prefer reduced motion.
+ */
+export default function AnimatedNumber({ value, decimals = 0, duration = 800 }: AnimatedNumberProps) {
+  const [display, setDisplay] = useState(0);
+  const displayRef = useRef(0);
+
+  useEffect(() => {
+    const from = displayRef.current;
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+    if (reduceMotion || from === value) {
+      displayRef.current = value;
+      setDisplay(value);
+      return;
+    }
+
+    let frame = 0;
+    const start = performance.now();
+
+    function step(now: number) {
+      const progress = Math.min(1, (now - start) / duration);
+      displayRef.current = from + (value - from) * easeOutCubic(progress);
+      setDisplay(displayRef.current);
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      }
+    }
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [value, duration]);
+
+  return (
+    <span className="tabular-nums">
+      {display.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })}
+    </span>
+  );
+}
@@ -0,0 +1,36 @@
+import { Github, LogOut } from 'lucide-react';
+
+interface AuthButtonProps {
+  login: string | null;
+  onSignIn: () => void;
+  onSignOut: () => void;
+}
+
+export default function AuthButton({ login, onSignIn, onSignOut }: AuthButtonProps) {
+  if (!login) {
+    return (
+      <button
+        onClick={onSignIn}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-900 text-white text-sm font-medium hover:bg-gray-700 transition-colors"
+      >
+        <Github className="h-4 w-4" />
+        Sign in with GitHub to claim tasks
+      </button>
+    );
+  }
+
+  return (
+    <div className="inline-flex items-center gap-3 text-sm text-gray-600">
+      <span>
+        Signed in as <span className="font-medium text-gray-900">{login}</span>
+      </span>
+      <button
+        onClick={onSignOut}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-700 hover:border-gray-400 transition-colors"
+      >
+        <LogOut className="h-4 w-4" />
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import { X, Loader2, ExternalLink, Trophy } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { taskDetailUrl } from '../hooks/useDetailParam';
+import { TASK_DIFFICULTY_LABELS } from '../../supabase/functions/_shared/labelMapping.ts';
+import { TASK_LIST_COLUMNS } from '../../supabase/functions/_shared/taskPages.ts';
+import { TASK_STATUS_LABELS } from '../../supabase/functions/_shared/taskStatus.ts';
+import { difficultyColors, statusColors } from '../lib/taskColors';
+import type { Contributor } from '../types/contributor';
+import type { Task } from '../types/task';
+
+interface ContributorProfileProps {
+  login: string;
+  onClose: () => void;
+  onOpenTask: (id: string) => void;
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+export default function ContributorProfile({ login, onClose, onOpenTask }: ContributorProfileProps) {
+  const [contributor, setContributor] = useState<Contributor | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchProfile() {
+      setLoading(true);
+      try {
+        const [contributorResult, taskResult] = await Promise.all([
+          supabase.from('contributors').select('*').eq('login', login).maybeSingle(),
+          supabase
+            .from('tasks')
+            .select(TASK_LIST_COLUMNS)
+            .eq('claimed_by', login)
+            .in('status', ['in-progress', 'in-review', 'completed'])
+            .order('updated_at', { ascending: false })
+            .returns<Task[]>(),
+        ]);
+
+        if (contributorResult.error) {
+          throw contributorResult.error;
+        }
+        if (taskResult.error) {
+          throw taskResult.error;
+        }
+        if (cancelled) return;
+
+        setContributor(contributorResult.data);
+        setTasks(taskResult.data || []);
+      } catch (error) {
+        console.error('Error fetching contributor:', error);
+        if (!cancelled) {
+          setContributor(null);
+          setTasks([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [login]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = '';
+    };
+  }, [onClose]);
+
+  const activeTasks = tasks.filter((task) => task.status !== 'completed');
+  const completedTasks = tasks.filter((task) => task.status === 'completed');
+
+  function renderTaskList(title: string, list: Task[]) {
+    if (list.length === 0) return null;
+
+    return (
+      <section className="mt-8">
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">
+          {title} <span className="font-normal text-gray-500">({list.length})</span>
+        </h3>
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+          {list.map((task) => (
+            <li key={task.id} className="flex flex-wrap items-center gap-2 px-4 py-3">
+              <a
+                href={taskDetailUrl(task.id)}
+                onClick={(e) => {
+                  if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+                  e.preventDefault();
+                  onOpenTask(task.id);
+                }}
+                className="min-w-0 flex-1 truncate text-sm font-medium text-gray-900 hover:text-blue-600"
+              >
+                {task.title}
+              </a>
+              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${difficultyColors[task.difficulty]}`}>
+                {TASK_DIFFICULTY_LABELS[task.difficulty]}
+              </span>
+              {task.status !== 'completed' && (
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${statusColors[task.status]}`}>
+                  {TASK_STATUS_LABELS[task.status]}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-gray-900/50 p-4 sm:p-8"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="contributor-profile-title"
+        className="relative w-full max-w-2xl rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          className="absolute right-4 top-4 rounded-full p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <div className="p-6 sm:p-8">
+            <div className="flex items-center gap-4 pr-10">
+              <img
+                src={`https://github.com/${login}.png?size=128`}
+                alt=""
+                className="h-16 w-16 rounded-full bg-gray-100"
+              />
+              <div className="min-w-0">
+                <h2 id="contributor-profile-title" className="truncate text-2xl font-bold text-gray-900">
+                  {login}
+                </h2>
+                <a
+                  href={`https://github.com/${login}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  GitHub profile
+                  <ExternalLink className="h-3.5 w-3.5" />
+                </a>
+              </div>
+            </div>
+
+            {!contributor ? (
+              <p className="mt-8 text-gray-600">{login} has not claimed any tasks yet.</p>
+            ) : (
+              <>
+                <dl className="mt-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  <div className="rounded-lg bg-gray-50 p-4">
+                    <dt className="text-xs text-gray-500">Rank</dt>
+                    <dd className="mt-1 flex items-center gap-1 text-xl font-semibold text-gray-900">
+                      {contributor.points > 0 && contributor.rank <= 3 && <Trophy className="h-4 w-4 text-yellow-500" />}
+                      {contributor.points > 0 ? `#${contributor.rank}` : '–'}
+                    </dd>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-4">
+                    <dt className="text-xs text-gray-500">Points</dt>
+                    <dd className="mt-1 text-xl font-semibold text-gray-900">{contributor.points}</dd>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-4">
+                    <dt className="text-xs text-gray-500">Completed</dt>
+                    <dd className="mt-1 text-xl font-semibold text-gray-900">{contributor.completed_count}</dd>
+                  </div>
+                  <div className="rounded-lg bg-gray-50 p-4">
+                    <dt className="text-xs text-gray-500">In progress</dt>
+                    <dd className="mt-1 text-xl font-semibold text-gray-900">{contributor.active_count}</dd>
+                  </div>
+                </dl>
+
+                {renderTaskList('Working on', activeTasks)}
+                {renderTaskList('Completed', completedTasks)}
+
+                <p className="mt-8 border-t border-gray-100 pt-4 text-xs text-gray-400">
+                  Last active {formatDate(contributor.last_active_at)}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
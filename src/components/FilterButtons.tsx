@@ -0,0 +1,52 @@
+import type { LucideIcon } from 'lucide-react';
+import type { ReactNode } from 'react';
+
+export interface FilterButton<T extends string> {
+  value: T | 'all';
+  label: string;
+  title?: string;
+}
+
+interface FilterButtonsProps<T extends string> {
+  icon: LucideIcon;
+  label: string;
+  options: FilterButton<T>[];
+  selected: T | 'all';
+  onSelect: (value: T | 'all') => void;
+  className?: string;
+  children?: ReactNode;
+}
+
+export default function FilterButtons<T extends string>({
+  icon: Icon,
+  label,
+  options,
+  selected,
+  onSelect,
+  className = 'mb-6',
+  children,
+}: FilterButtonsProps<T>) {
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-3 ${className}`}>
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <Icon className="h-4 w-4" />
+        <span className="font-medium">{label}</span>
+      </div>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          title={option.title}
+          onClick={() => onSelect(option.value)}
+          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+            selected === option.value
+              ? 'bg-blue-600 text-white shadow-lg scale-105'
+              : 'bg-white text-gray-700 border border-gray-200 hover:border-blue-300 hover:shadow'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+      {children}
+    </div>
+  );
+}
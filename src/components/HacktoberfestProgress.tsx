@@ -0,0 +1,253 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Award, Loader2, GitMerge, GitPullRequest, Search, CheckCircle2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { taskDetailUrl } from '../hooks/useDetailParam';
+import {
+  eventProgress,
+  isGitHubLogin,
+  type EventProgress,
+  type EventPullRequest,
+  type PullRequestRecord,
+} from '../../supabase/functions/_shared/hacktoberfest.ts';
+import type { HacktoberfestEvent } from '../types/event';
+
+const LOGIN_PARAM = 'progress';
+
+function readLogin(): string {
+  return new URLSearchParams(window.location.search).get(LOGIN_PARAM) ?? '';
+}
+
+function formatDate(value: string, timeZone?: string) {
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone });
+}
+
+function formatWindow(event: HacktoberfestEvent) {
+  // `ends_at` is exclusive; show the last day that counts.
+  const lastDay = new Date(Date.parse(event.ends_at) - 1).toISOString();
+  return `${formatDate(event.starts_at, 'UTC')} – ${formatDate(lastDay, 'UTC')}`;
+}
+
+function PullRequestItem({ pullRequest, merged }: { pullRequest: EventPullRequest; merged: boolean }) {
+  return (
+    <li className="flex items-start gap-3 px-4 py-3">
+      {merged ? (
+        <GitMerge className="mt-0.5 h-4 w-4 flex-none text-purple-600" />
+      ) : (
+        <GitPullRequest className="mt-0.5 h-4 w-4 flex-none text-green-600" />
+      )}
+      <div className="min-w-0 flex-1">
+        <a
+          href={pullRequest.html_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm font-medium text-gray-900 hover:text-blue-600"
+        >
+          {pullRequest.repository}#{pullRequest.number}
+        </a>
+        <span className="ml-2 text-xs text-gray-500">
+          {pullRequest.merged_at ? `merged ${formatDate(pullRequest.merged_at)}` : `opened ${formatDate(pullRequest.opened_at)}`}
+        </span>
+        {pullRequest.tasks.length > 0 && (
+          <p className="mt-0.5 truncate text-xs text-gray-600">
+            Closes{' '}
+            {pullRequest.tasks.map((task, index) => (
+              <span key={task.id}>
+                {index > 0 && ', '}
+                <a href={taskDetailUrl(task.id)} className="hover:text-blue-600">
+                  {task.title}
+                </a>
+              </span>
+            ))}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+export default function HacktoberfestProgress() {
+  const [input, setInput] = useState(readLogin);
+  const [login, setLogin] = useState(() => (isGitHubLogin(readLogin()) ? readLogin() : ''));
+  const [event, setEvent] = useState<HacktoberfestEvent | null>(null);
+  const [progress, setProgress] = useState<EventProgress | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchEvent() {
+      const { data, error } = await supabase
+        .from('events')
+        .select('slug, name, starts_at, ends_at, pr_goal')
+        .lte('starts_at', new Date().toISOString())
+        .order('starts_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching event:', error);
+        return;
+      }
+
+      setEvent(data);
+    }
+
+    fetchEvent();
+  }, []);
+
+  useEffect(() => {
+    if (!login || !event) return;
+    let cancelled = false;
+
+    async function fetchProgress(current: HacktoberfestEvent) {
+      setLoading(true);
+      setError(null);
+      try {
+        // GitHub usernames are case-insensitive; validated logins contain no wildcards.
+        const { data, error } = await supabase
+          .from('task_pull_requests')
+          .select('number, html_url, state, merged, opened_at, merged_at, created_at, task:tasks(id, title)')
+          .ilike('author', login)
+          .returns<PullRequestRecord[]>();
+
+        if (error) {
+          throw error;
+        }
+        if (cancelled) return;
+
+        setProgress(eventProgress(data || [], current));
+      } catch (error) {
+        console.error('Error fetching progress:', error);
+        if (!cancelled) {
+          setProgress(null);
+          setError('Could not load pull requests. Please try again.');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchProgress(event);
+    return () => {
+      cancelled = true;
+    };
+  }, [login, event]);
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const next = input.trim().replace(/^@/, '');
+    if (!isGitHubLogin(next)) {
+      setError('Enter a GitHub username, e.g. octocat.');
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.set(LOGIN_PARAM, next);
+    window.history.replaceState(window.history.state, '', url);
+    setError(null);
+    setLogin(next);
+  }
+
+  const goal = progress?.goal ?? event?.pr_goal ?? 4;
+  const count = progress ? progress.qualifying.length : 0;
+
+  return (
+    <section id="hacktoberfest" className="bg-white py-16 sm:py-24">
+      <div className="mx-auto max-w-3xl px-6 lg:px-8">
+        <div className="text-center mb-10">
+          <div className="inline-flex rounded-full bg-blue-50 p-3 mb-4">
+            <Award className="h-8 w-8 text-blue-600" />
+          </div>
+          <h2 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">
+            {event?.name ?? 'Hacktoberfest'} progress
+          </h2>
+          <p className="mt-4 text-lg text-gray-600">
+            Pull requests that close a task here and are merged count toward your {goal} for the badge.
+            {event && <span className="block mt-1 text-sm text-gray-500">Opened between {formatWindow(event)} (UTC)</span>}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-2 max-w-md mx-auto">
+          <label className="relative flex-1">
+            <span className="sr-only">GitHub username</span>
+            <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Your GitHub username"
+              autoComplete="username"
+              spellCheck={false}
+              className="w-full rounded-xl border border-gray-200 bg-white py-3 pl-12 pr-4 text-gray-900 shadow-sm placeholder:text-gray-400 focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+          </label>
+          <button
+            type="submit"
+            className="rounded-xl bg-blue-600 px-5 py-3 text-sm font-semibold text-white shadow hover:bg-blue-500 transition-colors"
+          >
+            Check
+          </button>
+        </form>
+
+        {error && <p className="mt-4 text-center text-sm text-red-600">{error}</p>}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : progress && (
+          <div className="mt-10">
+            <div className="flex items-baseline justify-between mb-2">
+              <p className="text-sm font-medium text-gray-900">
+                {login}: {Math.min(count, goal)} of {goal} pull requests
+              </p>
+              {progress.complete ? (
+                <p className="inline-flex items-center gap-1 text-sm font-medium text-green-700">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Goal reached!
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">{progress.remaining} to go</p>
+              )}
+            </div>
+            <div className="flex gap-1.5" role="progressbar" aria-valuemin={0} aria-valuemax={goal} aria-valuenow={Math.min(count, goal)}>
+              {Array.from({ length: goal }, (_, index) => (
+                <div
+                  key={index}
+                  className={`h-3 flex-1 rounded-full ${index < count ? 'bg-gradient-to-r from-blue-500 to-purple-500' : 'bg-gray-100'}`}
+                />
+              ))}
+            </div>
+
+            {progress.qualifying.length === 0 && progress.pending.length === 0 ? (
+              <p className="mt-8 text-center text-gray-600">
+                No pull requests for our tasks yet. Pick one below and mention "Fixes #&lt;issue&gt;" in your pull request.
+              </p>
+            ) : (
+              <>
+                {progress.qualifying.length > 0 && (
+                  <section className="mt-8">
+                    <h3 className="text-sm font-semibold text-gray-900 mb-3">Counted</h3>
+                    <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+                      {progress.qualifying.map((pullRequest) => (
+                        <PullRequestItem key={pullRequest.html_url} pullRequest={pullRequest} merged />
+                      ))}
+                    </ul>
+                  </section>
+                )}
+                {progress.pending.length > 0 && (
+                  <section className="mt-8">
+                    <h3 className="text-sm font-semibold text-gray-900 mb-3">Waiting for review</h3>
+                    <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100">
+                      {progress.pending.map((pullRequest) => (
+                        <PullRequestItem key={pullRequest.html_url} pullRequest={pullRequest} merged={false} />
+                      ))}
+                    </ul>
+                  </section>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -1,6 +1,51 @@
-import { Wrench, Users, Award } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Wrench, Users, Award, ListTodo, CheckCircle2, Timer } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import { TASK_DIFFICULTIES, TASK_DIFFICULTY_LABELS } from '../../supabase/functions/_shared/labelMapping.ts';
+import type { TaskStats } from '../types/stats';
+import AnimatedNumber from './AnimatedNumber';
+import Sparkline from './Sparkline';
+
+/** Shows short medians in hours and longer ones in days. */
+function formatMedian(hours: number | null) {
+  if (hours == null) return null;
+  return hours < 48 ? { value: hours, unit: 'h' } : { value: hours / 24, unit: 'days' };
+}
 
 export default function Hero() {
+  const [stats, setStats] = useState<TaskStats | null>(null);
+  const [version, setVersion] = useState(0);
+  // Bursts of task changes (a sync run) refetch once.
+  const refresh = useDebouncedValue(version, 1000);
+
+  useTaskChanges(() => setVersion((current) => current + 1));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchStats() {
+      const { data, error } = await supabase.rpc('task_stats');
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching stats:', error);
+        return;
+      }
+
+      setStats(data);
+    }
+
+    fetchStats();
+    return () => {
+      cancelled = true;
+    };
+  }, [refresh]);
+
+  const openTotal = stats ? Object.values(stats.open_by_difficulty).reduce((sum, count) => sum + (count ?? 0), 0) : 0;
+  const median = formatMedian(stats?.median_hours_to_complete ?? null);
+
   return (
     <div className="relative overflow-hidden bg-gradient-to-br from-slate-900 via-blue-900 to-slate-900">
       <div className="absolute inset-0 bg-grid-white/[0.05] bg-[size:20px_20px]" />
@@ -23,13 +68,20 @@ export default function Hero() {
             Perfect for developers, robotics enthusiasts, and first-time open-source contributors.
           </p>
 
-          <div className="mt-10 flex items-center justify-center gap-x-6">
+          <div className="mt-10 flex flex-wrap items-center justify-center gap-x-6 gap-y-4">
             <a
               href="#tasks"
               className="rounded-lg bg-blue-600 px-6 py-3 text-base font-semibold text-white shadow-lg hover:bg-blue-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-blue-600 transition-all hover:scale-105"
             >
               Browse Tasks
             </a>
+            <a
+              href="#hacktoberfest"
+              className="inline-flex items-center gap-1.5 text-base font-semibold leading-7 text-white hover:text-blue-400 transition-colors"
+            >
+              <Award className="h-5 w-5" />
+              Hacktoberfest progress
+            </a>
             <a
               href="https://github.com/jasonetorres/torctoberfest"
               target="_blank"
@@ -42,37 +94,70 @@ export default function Hero() {
         </div>
 
         <div className="mx-auto mt-20 max-w-5xl">
-          <div className="grid grid-cols-1 gap-8 sm:grid-cols-3">
-            <div className="flex flex-col items-center p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
-              <div className="rounded-full bg-blue-500/10 p-3 mb-4">
-                <Award className="h-8 w-8 text-blue-400" />
-              </div>
-              <h3 className="text-lg font-semibold text-white mb-2">Hacktoberfest 2025</h3>
-              <p className="text-sm text-gray-400 text-center">
-                Official participant. Submit quality PRs and earn your digital badge!
-              </p>
+          <dl className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="flex flex-col p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
+              <dt className="flex items-center gap-2 text-sm text-gray-400">
+                <ListTodo className="h-4 w-4 text-blue-400" />
+                Open tasks
+              </dt>
+              <dd className="mt-2 text-4xl font-bold text-white">
+                {stats ? <AnimatedNumber value={openTotal} /> : '–'}
+              </dd>
+              {stats && openTotal > 0 && (
+                <dd className="mt-3 flex flex-wrap gap-1.5">
+                  {TASK_DIFFICULTIES.filter((difficulty) => stats.open_by_difficulty[difficulty]).map((difficulty) => (
+                    <span key={difficulty} className="rounded-full bg-white/10 px-2 py-0.5 text-xs text-gray-300">
+                      {TASK_DIFFICULTY_LABELS[difficulty]} {stats.open_by_difficulty[difficulty]}
+                    </span>
+                  ))}
+                </dd>
+              )}
             </div>
 
-            <div className="flex flex-col items-center p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
-              <div className="rounded-full bg-green-500/10 p-3 mb-4">
-                <Users className="h-8 w-8 text-green-400" />
-              </div>
-              <h3 className="text-lg font-semibold text-white mb-2">Beginner Friendly</h3>
-              <p className="text-sm text-gray-400 text-center">
-                Clear documentation and tasks for all skill levels. New to open source? Start here!
-              </p>
+            <div className="flex flex-col p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
+              <dt className="flex items-center gap-2 text-sm text-gray-400">
+                <CheckCircle2 className="h-4 w-4 text-green-400" />
+                Completed this week
+              </dt>
+              <dd className="mt-2 text-4xl font-bold text-white">
+                {stats ? <AnimatedNumber value={stats.completed_this_week} /> : '–'}
+              </dd>
+              {stats && (
+                <dd className="mt-3 text-green-400">
+                  <Sparkline values={stats.completed_per_day} label="Tasks completed per day, last 14 days" />
+                </dd>
+              )}
             </div>
 
-            <div className="flex flex-col items-center p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
-              <div className="rounded-full bg-purple-500/10 p-3 mb-4">
-                <Wrench className="h-8 w-8 text-purple-400" />
-              </div>
-              <h3 className="text-lg font-semibold text-white mb-2">Real Utilities</h3>
-              <p className="text-sm text-gray-400 text-center">
-                Build tools that developers actually use. Your code makes a difference!
-              </p>
+            <div className="flex flex-col p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
+              <dt className="flex items-center gap-2 text-sm text-gray-400">
+                <Users className="h-4 w-4 text-purple-400" />
+                Active contributors
+              </dt>
+              <dd className="mt-2 text-4xl font-bold text-white">
+                {stats ? <AnimatedNumber value={stats.active_contributors} /> : '–'}
+              </dd>
+              <dd className="mt-3 text-xs text-gray-400">Working on a task or finished one this week</dd>
             </div>
-          </div>
+
+            <div className="flex flex-col p-6 bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10">
+              <dt className="flex items-center gap-2 text-sm text-gray-400">
+                <Timer className="h-4 w-4 text-yellow-400" />
+                Median claim to done
+              </dt>
+              <dd className="mt-2 text-4xl font-bold text-white">
+                {median ? (
+                  <>
+                    <AnimatedNumber value={median.value} decimals={1} />
+                    <span className="ml-1 text-lg font-medium text-gray-400">{median.unit}</span>
+                  </>
+                ) : (
+                  '–'
+                )}
+              </dd>
+              <dd className="mt-3 text-xs text-gray-400">Over the last 90 days</dd>
+            </div>
+          </dl>
         </div>
       </div>
     </div>
@@ -0,0 +1,22 @@
+import { highlightMatches } from '../../supabase/functions/_shared/search.ts';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+export default function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {highlightMatches(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
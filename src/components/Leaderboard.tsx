@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Trophy, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { contributorUrl } from '../hooks/useDetailParam';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import type { Contributor } from '../types/contributor';
+
+/** How many contributors the leaderboard lists. */
+const LEADERBOARD_SIZE = 10;
+
+const rankColors: Record<number, string> = {
+  1: 'bg-yellow-100 text-yellow-800',
+  2: 'bg-gray-200 text-gray-800',
+  3: 'bg-orange-100 text-orange-800',
+};
+
+interface LeaderboardProps {
+  onOpen: (login: string) => void;
+}
+
+export default function Leaderboard({ onOpen }: LeaderboardProps) {
+  const [contributors, setContributors] = useState<Contributor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  // Bursts of task changes (a sync run) refetch once.
+  const refresh = useDebouncedValue(version, 1000);
+
+  useTaskChanges(() => setVersion((current) => current + 1));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchContributors() {
+      const { data, error } = await supabase
+        .from('contributors')
+        .select('*')
+        .gt('points', 0)
+        .order('rank')
+        .order('login')
+        .limit(LEADERBOARD_SIZE);
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching contributors:', error);
+      } else {
+        setContributors(data || []);
+      }
+      setLoading(false);
+    }
+
+    fetchContributors();
+    return () => {
+      cancelled = true;
+    };
+  }, [refresh]);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-1">
+        <Trophy className="h-5 w-5 text-yellow-500" />
+        Leaderboard
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">Points for completed tasks, weighted by difficulty.</p>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : contributors.length === 0 ? (
+        <p className="py-4 text-sm text-gray-600">No completed tasks yet. Be the first!</p>
+      ) : (
+        <ol className="space-y-1">
+          {contributors.map((contributor) => (
+            <li key={contributor.login}>
+              <a
+                href={contributorUrl(contributor.login)}
+                onClick={(e) => {
+                  if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+                  e.preventDefault();
+                  onOpen(contributor.login);
+                }}
+                className="flex items-center gap-3 rounded-lg px-2 py-2 hover:bg-gray-50"
+              >
+                <span
+                  className={`flex h-7 w-7 flex-none items-center justify-center rounded-full text-xs font-semibold ${
+                    rankColors[contributor.rank] ?? 'bg-gray-50 text-gray-600'
+                  }`}
+                >
+                  {contributor.rank}
+                </span>
+                <img
+                  src={`https://github.com/${contributor.login}.png?size=64`}
+                  alt=""
+                  className="h-7 w-7 flex-none rounded-full bg-gray-100"
+                  loading="lazy"
+                />
+                <span className="min-w-0 flex-1 truncate text-sm font-medium text-gray-900">{contributor.login}</span>
+                <span className="text-right text-xs text-gray-500">
+                  <span className="block text-sm font-semibold text-gray-900">{contributor.points}</span>
+                  {contributor.completed_count} done
+                </span>
+              </a>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import ReactMarkdown from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeSanitize from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import 'highlight.js/styles/github.css';
+
+interface MarkdownProps {
+  children: string;
+}
+
+/**
+ * Renders GitHub-flavoured Markdown from issue bodies. Raw HTML is sanitized
+ * with GitHub's allow-list before code blocks are highlighted, so only the
+ * highlighter's own markup is added after sanitizing.
+ */
+export default function Markdown({ children }: MarkdownProps) {
+  return (
+    <div className="markdown-body">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize, [rehypeHighlight, { detect: true, ignoreMissing: true }]]}
+        components={{
+          a: ({ href, children }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {children}
+            </a>
+          ),
+        }}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
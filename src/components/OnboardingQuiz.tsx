@@ -0,0 +1,124 @@
+import { useState, type FormEvent, type ReactNode } from 'react';
+import { TIME_BUDGETS, type TimeBudget } from '../../supabase/functions/_shared/estimatedTime.ts';
+import {
+  EXPERIENCE_LEVELS,
+  EXPERIENCE_LEVEL_LABELS,
+  INTERESTS,
+  INTEREST_MATCHES,
+  LANGUAGES,
+  type NewcomerProfile,
+} from '../../supabase/functions/_shared/recommendations.ts';
+
+interface OnboardingQuizProps {
+  initial: NewcomerProfile | null;
+  onSave: (profile: NewcomerProfile) => void;
+  onCancel: () => void;
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function Question({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <fieldset>
+      <legend className="text-sm font-medium text-gray-900 mb-2">{title}</legend>
+      <div className="flex flex-wrap gap-2">{children}</div>
+    </fieldset>
+  );
+}
+
+function Choice({ selected, onClick, children }: { selected: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+        selected ? 'bg-blue-600 text-white shadow' : 'bg-white text-gray-700 border border-gray-200 hover:border-blue-300'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Four questions that drive the "Recommended for you" row. */
+export default function OnboardingQuiz({ initial, onSave, onCancel }: OnboardingQuizProps) {
+  const [profile, setProfile] = useState<NewcomerProfile>(
+    initial ?? { experience: 'new', languages: [], interests: [], time: 'all' }
+  );
+
+  function update(changes: Partial<NewcomerProfile>) {
+    setProfile((current) => ({ ...current, ...changes }));
+  }
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    onSave(profile);
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <Question title="How much open source have you done?">
+        {EXPERIENCE_LEVELS.map((level) => (
+          <Choice key={level} selected={profile.experience === level} onClick={() => update({ experience: level })}>
+            {EXPERIENCE_LEVEL_LABELS[level]}
+          </Choice>
+        ))}
+      </Question>
+
+      <Question title="Which languages do you know?">
+        {LANGUAGES.map((language) => (
+          <Choice
+            key={language}
+            selected={profile.languages.includes(language)}
+            onClick={() => update({ languages: toggle(profile.languages, language) })}
+          >
+            {language}
+          </Choice>
+        ))}
+      </Question>
+
+      <Question title="What would you like to work on?">
+        {INTERESTS.map((interest) => (
+          <Choice
+            key={interest}
+            selected={profile.interests.includes(interest)}
+            onClick={() => update({ interests: toggle(profile.interests, interest) })}
+          >
+            {INTEREST_MATCHES[interest].label}
+          </Choice>
+        ))}
+      </Question>
+
+      <Question title="How much time do you have?">
+        {[...TIME_BUDGETS, { value: 'all' as const, label: 'No limit' }].map((budget) => (
+          <Choice
+            key={budget.value}
+            selected={profile.time === budget.value}
+            onClick={() => update({ time: budget.value as TimeBudget | 'all' })}
+          >
+            {budget.label}
+          </Choice>
+        ))}
+      </Question>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:border-gray-400"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-500"
+        >
+          Show my recommendations
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Clock, Compass, Loader2, Pencil, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { taskDetailUrl } from '../hooks/useDetailParam';
+import { useNewcomerProfile } from '../hooks/useNewcomerProfile';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import { formatEstimatedRange } from '../../supabase/functions/_shared/estimatedTime.ts';
+import { TASK_DIFFICULTY_LABELS } from '../../supabase/functions/_shared/labelMapping.ts';
+import {
+  recommendTasks,
+  suitableDifficulties,
+  type TaskScore,
+} from '../../supabase/functions/_shared/recommendations.ts';
+import { DEFAULT_TASK_FILTERS, applyTaskFilters, applyTaskSort } from '../../supabase/functions/_shared/taskFilters.ts';
+import { TASK_LIST_COLUMNS } from '../../supabase/functions/_shared/taskPages.ts';
+import { difficultyColors } from '../lib/taskColors';
+import type { Task } from '../types/task';
+import OnboardingQuiz from './OnboardingQuiz';
+
+/** How many recommendations the row shows. */
+const RECOMMENDATION_COUNT = 4;
+
+/** How many of the newest matching tasks are scored. */
+const CANDIDATE_LIMIT = 200;
+
+interface RecommendedTasksProps {
+  onOpen: (id: string) => void;
+}
+
+export default function RecommendedTasks({ onOpen }: RecommendedTasksProps) {
+  const [profile, setProfile] = useNewcomerProfile();
+  const [editing, setEditing] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [recommendations, setRecommendations] = useState<Array<Task & TaskScore>>([]);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+  const refresh = useDebouncedValue(version, 1000);
+
+  useTaskChanges(() => setVersion((current) => current + 1));
+
+  useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+
+    async function fetchRecommendations() {
+      if (!profile) return;
+
+      // The same view as the board's open tab, limited to tasks someone can start now.
+      const base = supabase.from('tasks').select(TASK_LIST_COLUMNS);
+      const view = { ...DEFAULT_TASK_FILTERS, claim: 'unclaimed' as const, hideBlocked: true };
+      const { data, error } = await applyTaskSort(applyTaskFilters(base, view), view.sort)
+        .in('difficulty', suitableDifficulties(profile.experience))
+        .limit(CANDIDATE_LIMIT)
+        .returns<Task[]>();
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching recommendations:', error);
+      } else {
+        setRecommendations(recommendTasks(data || [], profile, RECOMMENDATION_COUNT));
+      }
+      setLoading(false);
+    }
+
+    fetchRecommendations();
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, refresh]);
+
+  if (editing) {
+    return (
+      <div className="mb-12 rounded-xl border border-blue-100 bg-white p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Tell us about yourself</h3>
+        <OnboardingQuiz
+          initial={profile}
+          onSave={(next) => {
+            setProfile(next);
+            setLoading(true);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    if (dismissed) return null;
+
+    return (
+      <div className="mb-12 flex flex-wrap items-center justify-between gap-4 rounded-xl border border-blue-100 bg-blue-50 px-6 py-4">
+        <p className="flex items-center gap-2 text-sm text-gray-700">
+          <Compass className="h-5 w-5 text-blue-600" />
+          Not sure where to start? Answer four quick questions and we will suggest tasks for you.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setDismissed(true)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-gray-600 hover:text-gray-900"
+          >
+            Not now
+          </button>
+          <button
+            onClick={() => setEditing(true)}
+            className="px-3 py-1.5 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-500"
+          >
+            Get recommendations
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-12">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+          <Compass className="h-5 w-5 text-blue-600" />
+          Recommended for you
+        </h3>
+        <div className="flex gap-3 text-sm">
+          <button onClick={() => setEditing(true)} className="inline-flex items-center gap-1 text-gray-600 hover:text-blue-600">
+            <Pencil className="h-4 w-4" />
+            Change answers
+          </button>
+          <button onClick={() => setProfile(null)} className="inline-flex items-center gap-1 text-gray-600 hover:text-blue-600">
+            <X className="h-4 w-4" />
+            Forget me
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : recommendations.length === 0 ? (
+        <p className="rounded-xl border border-gray-200 bg-white px-6 py-4 text-sm text-gray-600">
+          No open tasks match your answers right now. Try other interests or more time.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {recommendations.map((task) => {
+            const estimate = task.estimated_minutes_min != null && task.estimated_minutes_max != null
+              ? formatEstimatedRange({ min: task.estimated_minutes_min, max: task.estimated_minutes_max })
+              : task.estimated_time;
+
+            return (
+              <li key={task.id} className="flex flex-col rounded-xl border border-gray-200 bg-white p-4 shadow-sm hover:border-blue-400">
+                <a
+                  href={taskDetailUrl(task.id)}
+                  onClick={(e) => {
+                    if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+                    e.preventDefault();
+                    onOpen(task.id);
+                  }}
+                  className="font-semibold text-gray-900 hover:text-blue-600 line-clamp-2"
+                >
+                  {task.title}
+                </a>
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full font-medium border ${difficultyColors[task.difficulty]}`}>
+                    {TASK_DIFFICULTY_LABELS[task.difficulty]}
+                  </span>
+                  {estimate && (
+                    <span className="inline-flex items-center gap-1 text-gray-500">
+                      <Clock className="h-3.5 w-3.5" />
+                      {estimate}
+                    </span>
+                  )}
+                </div>
+                {task.reasons.length > 0 && (
+                  <p className="mt-3 text-xs text-gray-500">{task.reasons.join(' · ')}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
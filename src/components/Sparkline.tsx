@@ -0,0 +1,52 @@
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  /** Accessible description, e.g. "Tasks completed per day". */
+  label: string;
+  className?: string;
+}
+
+/**
+ * A small line chart without axes. Values are scaled to the height, with zero
+ * at the bottom.
+ */
+export default function Sparkline({ values, width = 120, height = 32, label, className = '' }: SparklineProps) {
+  if (values.length < 2) {
+    return null;
+  }
+
+  // Keep the stroke inside the box.
+  const padding = 2;
+  const max = Math.max(...values, 1);
+  const step = (width - padding * 2) / (values.length - 1);
+  const points = values.map((value, index) => {
+    const x = padding + index * step;
+    const y = height - padding - (value / max) * (height - padding * 2);
+    return `${Number(x.toFixed(2))},${Number(y.toFixed(2))}`;
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      role="img"
+      aria-label={`${label}: ${values.join(', ')}`}
+      className={className}
+    >
+      <polygon
+        points={`${padding},${height - padding} ${points.join(' ')} ${width - padding},${height - padding}`}
+        className="fill-current opacity-20"
+      />
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
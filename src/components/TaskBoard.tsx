@@ -1,67 +1,299 @@
-import { useState, useEffect } from 'react';
-import { Filter, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef, lazy, Suspense } from 'react';
+import { Filter, Loader2, Clock, ArrowUpDown, FolderGit2, Search, X, Tag, UserCheck, Sparkles, Star, Rss } from 'lucide-react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import type { Task, TaskDifficulty } from '../types/task';
+import { useAuth } from '../hooks/useAuth';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useSelectedContributor, useSelectedTask } from '../hooks/useDetailParam';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import { useTaskFilters } from '../hooks/useTaskFilters';
+import { useWatchlist } from '../hooks/useWatchlist';
+import {
+  TASK_CATEGORY_LABELS,
+  TASK_DIFFICULTY_LABELS,
+  filterOptions,
+} from '../../supabase/functions/_shared/labelMapping.ts';
+import { TIME_BUDGETS, type TimeBudget } from '../../supabase/functions/_shared/estimatedTime.ts';
+import {
+  CLAIM_FILTERS,
+  CLAIM_FILTER_LABELS,
+  MAX_LABEL_FILTERS,
+  NEWCOMER_FILTERS,
+  TASK_SORTS,
+  TASK_SORT_LABELS,
+  applyTaskChange,
+  applyTaskFilters,
+  applyTaskSort,
+  matchesTaskFilters,
+  serializeTaskFilters,
+  type ClaimFilter,
+  type TaskFilters,
+  type TaskSort,
+} from '../../supabase/functions/_shared/taskFilters.ts';
+import { claimDeadline } from '../../supabase/functions/_shared/claimExpiry.ts';
+import { TASK_LIST_COLUMNS, TASK_PAGE_SIZE, keysetFilter } from '../../supabase/functions/_shared/taskPages.ts';
+import { MAX_SEARCH_LENGTH, normalizeSearchQuery, searchTerms } from '../../supabase/functions/_shared/search.ts';
+import { feedParams } from '../../supabase/functions/_shared/taskFeed.ts';
+import {
+  TASK_STATUS_TABS,
+  TASK_STATUS_TAB_LABELS,
+  adjustTabCounts,
+  claimTask,
+  releaseTask,
+  type TaskStatus,
+  type TaskStatusTab,
+} from '../../supabase/functions/_shared/taskStatus.ts';
+import type { Repository } from '../types/repository';
+import type { ClaimExpiryRule, LabelMapping, Task, TaskCategory, TaskDifficulty } from '../types/task';
+import AuthButton from './AuthButton';
+import ContributorProfile from './ContributorProfile';
+import FilterButtons, { type FilterButton } from './FilterButtons';
+import Leaderboard from './Leaderboard';
+import RecommendedTasks from './RecommendedTasks';
 import TaskCard from './TaskCard';
+import WatchNotifications from './WatchNotifications';
 
-const difficulties: { value: TaskDifficulty | 'all'; label: string }[] = [
-  { value: 'all', label: 'All Tasks' },
-  { value: 'good-first-issue', label: 'Good First Issue' },
-  { value: 'beginner', label: 'Beginner' },
-  { value: 'intermediate', label: 'Intermediate' },
-  { value: 'advanced', label: 'Advanced' },
+const DEFAULT_REPOSITORY = 'jasonetorres/torctoberfest';
+
+// The detail view bundles the Markdown renderer and highlighter, so it loads on first use.
+const TaskDetail = lazy(() => import('./TaskDetail'));
+
+/** How many of the most used labels are offered as filters. */
+const LABEL_OPTION_COUNT = 12;
+
+/** How long the "new tasks" toast stays up. */
+const NEW_TASKS_TOAST_MS = 6000;
+
+/** Tabs that do not overlap; together they make up 'all'. */
+const COUNTED_TABS = ['open', 'in-progress', 'completed'] as const;
+
+const timeBudgets: FilterButton<TimeBudget>[] = [
+  { value: 'all', label: 'Any Length' },
+  ...TIME_BUDGETS.map((budget) => ({ value: budget.value, label: budget.label })),
 ];
 
+const claimOptions: FilterButton<Exclude<ClaimFilter, 'all'>>[] = CLAIM_FILTERS.map((value) => ({
+  value,
+  label: CLAIM_FILTER_LABELS[value],
+}));
+
 export default function TaskBoard() {
+  const { session, login, signIn, signOut } = useAuth();
+  const [watchedIds, toggleWatch] = useWatchlist(session?.user.id ?? null);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedDifficulty, setSelectedDifficulty] = useState<TaskDifficulty | 'all'>('all');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [claimError, setClaimError] = useState<string | null>(null);
+  const [filters, updateFilters] = useTaskFilters();
+  const [selectedTaskId, openTask, closeTask] = useSelectedTask();
+  const [selectedContributor, openContributor, closeContributor] = useSelectedContributor();
+  const search = useDebouncedValue(filters.q);
+  const [tabCounts, setTabCounts] = useState<Record<TaskStatusTab, number> | null>(null);
+  // Tasks whose place in the tab counts is known: the status they are counted
+  // under, or null when they are not counted. Realtime updates only carry the
+  // new row, so a change to any other task means counting again.
+  const countedTasks = useRef(new Map<string, TaskStatus | null>());
+  const [recountVersion, setRecountVersion] = useState(0);
+  const recount = useDebouncedValue(recountVersion, 1000);
+  const [newTaskCount, setNewTaskCount] = useState(0);
+  const [labelOptions, setLabelOptions] = useState<string[]>([]);
+  const [groupByRepository, setGroupByRepository] = useState(false);
+  const [labelMappings, setLabelMappings] = useState<LabelMapping[]>([]);
+  const [repositories, setRepositories] = useState<Repository[]>([]);
+  const [claimExpiryRules, setClaimExpiryRules] = useState<ClaimExpiryRule[]>([]);
+
+  const difficulties: FilterButton<TaskDifficulty>[] = [
+    { value: 'all', label: 'All Tasks' },
+    ...filterOptions(labelMappings, 'difficulty').map((option) => ({
+      value: option.value,
+      label: TASK_DIFFICULTY_LABELS[option.value],
+      title: `Labels: ${option.aliases.join(', ')}`,
+    })),
+  ];
+
+  const categories: FilterButton<TaskCategory>[] = [
+    { value: 'all', label: 'All Categories' },
+    ...filterOptions(labelMappings, 'category').map((option) => ({
+      value: option.value,
+      label: TASK_CATEGORY_LABELS[option.value],
+      title: `Labels: ${option.aliases.join(', ')}`,
+    })),
+  ];
+
+  const repositoryOptions: FilterButton<string>[] = [
+    { value: 'all', label: 'All Repositories' },
+    ...repositories.map((repo) => ({
+      value: repo.full_name,
+      label: repo.display_name,
+      title: repo.full_name,
+    })),
+  ];
+
+  // The search box updates the URL on every keystroke; queries wait for the debounced value.
+  const queryFilters = { ...filters, q: search };
+  // Starring a task while the watchlist is shown changes what it lists.
+  const queryKey = serializeTaskFilters(queryFilters).toString() + (filters.watchlist ? `#${watchedIds.join(',')}` : '');
+
+  // The realtime handler outlives renders, so it reads the current view from refs.
+  const viewRef = useRef({ filters: queryFilters, watchedIds, key: queryKey, complete: !hasMore });
+  viewRef.current = { filters: queryFilters, watchedIds, key: queryKey, complete: !hasMore };
+  const fetchMoreTasksRef = useRef(fetchMoreTasks);
+  fetchMoreTasksRef.current = fetchMoreTasks;
+  const highlightTerms = searchTerms(search);
+  const hasFilters = serializeTaskFilters({ ...filters, status: 'open', sort: 'newest' }).toString() !== '';
+
+  // Selected labels stay visible even when they are not among the most used ones.
+  const visibleLabels = [...filters.labels, ...labelOptions.filter((label) => !filters.labels.includes(label))];
+
+  const suggestRepository = filters.repository !== 'all'
+    ? filters.repository
+    : repositories[0]?.full_name || DEFAULT_REPOSITORY;
+
+  const taskGroups = groupByRepository && filters.repository === 'all'
+    ? repositories
+        .map((repo) => ({ repository: repo, tasks: tasks.filter((task) => task.repository === repo.full_name) }))
+        .filter((group) => group.tasks.length > 0)
+    : null;
+
+  useEffect(() => {
+    fetchLabelMappings();
+    fetchRepositories();
+    fetchClaimExpiryRules();
+    fetchLabelOptions();
+  }, []);
 
   useEffect(() => {
     fetchTasks();
+  }, [queryKey]);
+
+  useEffect(() => {
+    if (recount > 0) fetchTabCounts(viewRef.current.key);
+  }, [recount]);
+
+  useTaskChanges(handleTaskChange);
+
+  // Loads the next page when the end of the grid scrolls into view.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
 
-    const channel = supabase
-      .channel('tasks-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'tasks',
-        },
-        () => {
-          fetchTasks();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          fetchMoreTasksRef.current();
         }
-      )
-      .subscribe();
+      },
+      { rootMargin: '400px' }
+    );
+    observer.observe(sentinel);
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [selectedDifficulty]);
+    return () => observer.disconnect();
+  }, [hasMore, loading, tasks.length]);
 
-  async function fetchTasks() {
-    setLoading(true);
-    try {
-      let query = supabase
-        .from('tasks')
-        .select('*')
-        .eq('status', 'open')
-        .order('created_at', { ascending: false });
+  useEffect(() => {
+    if (newTaskCount === 0) return;
+
+    const timeout = setTimeout(() => setNewTaskCount(0), NEW_TASKS_TOAST_MS);
+    return () => clearTimeout(timeout);
+  }, [newTaskCount]);
+
+  async function fetchLabelMappings() {
+    const { data, error } = await supabase
+      .from('label_mappings')
+      .select('kind, value, alias, priority, is_fallback');
+
+    if (error) {
+      console.error('Error fetching label mappings:', error);
+      return;
+    }
+
+    setLabelMappings(data || []);
+  }
+
+  async function fetchRepositories() {
+    const { data, error } = await supabase
+      .from('repositories')
+      .select('*')
+      .eq('active', true)
+      .order('display_name');
+
+    if (error) {
+      console.error('Error fetching repositories:', error);
+      return;
+    }
+
+    setRepositories(data || []);
+  }
 
-      if (selectedDifficulty !== 'all') {
-        query = query.eq('difficulty', selectedDifficulty);
+  async function fetchClaimExpiryRules() {
+    const { data, error } = await supabase
+      .from('claim_expiry_rules')
+      .select('difficulty, expires_after_days, warn_before_days');
+
+    if (error) {
+      console.error('Error fetching claim expiry rules:', error);
+      return;
+    }
+
+    setClaimExpiryRules(data || []);
+  }
+
+  async function fetchLabelOptions() {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('labels')
+      .neq('status', 'archived');
+
+    if (error) {
+      console.error('Error fetching labels:', error);
+      return;
+    }
+
+    const usage = new Map<string, number>();
+    for (const row of data || []) {
+      for (const label of row.labels || []) {
+        usage.set(label, (usage.get(label) || 0) + 1);
       }
+    }
+
+    setLabelOptions(
+      [...usage.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, LABEL_OPTION_COUNT)
+        .map(([label]) => label)
+    );
+  }
+
+  /** Builds the query for one page; pass the last loaded task to continue after it. */
+  function taskPageQuery(after?: Task) {
+    const base = supabase.from('tasks').select(TASK_LIST_COLUMNS);
+    let query = applyTaskSort(applyTaskFilters(base, queryFilters, watchedIds), queryFilters.sort);
+    if (after) {
+      query = query.or(keysetFilter(queryFilters.sort, after));
+    }
+    return query.limit(TASK_PAGE_SIZE).returns<Task[]>();
+  }
 
-      const { data, error } = await query;
+  async function fetchTasks() {
+    setLoading(true);
+    setHasMore(false);
+    try {
+      const [{ data, error }] = await Promise.all([taskPageQuery(), fetchTabCounts(queryKey)]);
 
       if (error) {
         console.error('Supabase error:', error);
         throw error;
       }
+      // A newer fetch for other filters has started.
+      if (viewRef.current.key !== queryKey) return;
 
       console.log('Fetched tasks:', data?.length || 0);
+      countedTasks.current = new Map((data || []).map((task) => [task.id, task.status]));
       setTasks(data || []);
+      setHasMore((data || []).length === TASK_PAGE_SIZE);
     } catch (error) {
       console.error('Error fetching tasks:', error);
       setTasks([]);
@@ -70,62 +302,463 @@ export default function TaskBoard() {
     }
   }
 
+  async function fetchMoreTasks() {
+    const last = tasks[tasks.length - 1];
+    if (loading || loadingMore || !hasMore || !last) return;
+
+    setLoadingMore(true);
+    try {
+      const { data, error } = await taskPageQuery(last);
+
+      if (error) {
+        throw error;
+      }
+      if (viewRef.current.key !== queryKey) return;
+
+      const page = data || [];
+      for (const task of page) {
+        if (!countedTasks.current.has(task.id)) countedTasks.current.set(task.id, task.status);
+      }
+      setTasks((current) => [...current, ...page.filter((task) => !current.some((t) => t.id === task.id))]);
+      setHasMore(page.length === TASK_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching more tasks:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  /**
+   * Counts per tab use every other filter, so switching tabs never shows a
+   * surprise. Postgres counts them; no rows are downloaded.
+   */
+  async function fetchTabCounts(key: string) {
+    const { filters: view, watchedIds: watched } = viewRef.current;
+    const results = await Promise.all(
+      COUNTED_TABS.map(async (tab) => {
+        const query = supabase.from('tasks').select('id', { count: 'exact', head: true });
+        const { count, error } = await applyTaskFilters(query, { ...view, status: tab }, watched);
+        return { count, error };
+      })
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error('Error fetching task counts:', failed.error);
+      return;
+    }
+    if (viewRef.current.key !== key) return;
+
+    const [open, inProgress, completed] = results.map((result) => result.count ?? 0);
+    setTabCounts({ 'open': open, 'in-progress': inProgress, 'completed': completed, 'all': open + inProgress + completed });
+  }
+
+  /** Moves a task between tab counts, or counts again when its previous place is unknown. */
+  function updateTabCounts(id: string, after: TaskStatus | null, inserted: boolean) {
+    const known = countedTasks.current;
+    const before = inserted ? null : known.get(id);
+    known.set(id, after);
+
+    if (before === undefined) {
+      setRecountVersion((version) => version + 1);
+    } else if (before !== after) {
+      setTabCounts((current) => current && adjustTabCounts(current, before, after));
+    }
+  }
+
+  /**
+   * Asks Postgres whether a task matches the filters. Only needed while
+   * searching, since full-text matching cannot be reproduced in the browser.
+   */
+  async function matchesSearch(id: string, view: TaskFilters, watched: string[]) {
+    const query = supabase.from('tasks').select('id').eq('id', id);
+    const { data, error } = await applyTaskFilters(query, { ...view, status: 'all' }, watched);
+
+    if (error) {
+      console.error('Error matching task:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Puts a changed task where it belongs: in or out of the list and the tab
+   * counts, in sort order. Used for realtime changes and our own claims.
+   */
+  async function applyTaskRow(task: Task, inserted: boolean) {
+    const { filters: view, watchedIds: watched, key, complete } = viewRef.current;
+
+    let counted = matchesTaskFilters(task, { ...view, status: 'all' }, watched);
+    if (counted && normalizeSearchQuery(view.q)) {
+      counted = await matchesSearch(task.id, view, watched);
+    }
+    // The view changed while we were asking; its own fetch already has this task.
+    if (viewRef.current.key !== key) return;
+
+    const listed = counted && matchesTaskFilters(task, view, watched);
+
+    setTasks((current) => applyTaskChange(current, { type: 'upsert', task, matches: listed }, view.sort, complete));
+    updateTabCounts(task.id, counted ? task.status : null, inserted);
+    if (inserted && listed) {
+      setNewTaskCount((count) => count + 1);
+    }
+  }
+
+  function handleTaskChange(payload: RealtimePostgresChangesPayload<Task>) {
+    if (payload.eventType !== 'DELETE') {
+      applyTaskRow(payload.new, payload.eventType === 'INSERT');
+      return;
+    }
+
+    const id = payload.old.id;
+    if (!id) return;
+
+    setTasks((current) => applyTaskChange(current, { type: 'delete', id }, viewRef.current.filters.sort));
+    updateTabCounts(id, null, false);
+    countedTasks.current.delete(id);
+  }
+
+  function toggleLabel(label: string) {
+    const labels = filters.labels.includes(label)
+      ? filters.labels.filter((l) => l !== label)
+      : [...filters.labels, label].slice(0, MAX_LABEL_FILTERS);
+    updateFilters({ labels });
+  }
+
+  async function updateClaim(task: Task, next: ReturnType<typeof claimTask>, failure: string) {
+    if (!next) return;
+
+    setClaimingId(task.id);
+    setClaimError(null);
+    try {
+      // Matching on the current state makes a concurrent claim fail instead of overwriting it.
+      let query = supabase
+        .from('tasks')
+        .update(next)
+        .eq('id', task.id)
+        .eq('status', task.status);
+      query = task.claimed_by ? query.eq('claimed_by', task.claimed_by) : query.is('claimed_by', null);
+
+      const { data, error } = await query.select('*');
+
+      if (error) {
+        throw error;
+      }
+      if (!data || data.length === 0) {
+        setClaimError(failure);
+        return;
+      }
+
+      // Realtime delivers the same change; applying it now keeps the card responsive.
+      await applyTaskRow(data[0], false);
+    } catch (error) {
+      console.error('Error updating claim:', error);
+      setClaimError(failure);
+    } finally {
+      setClaimingId(null);
+    }
+  }
+
+  function handleClaim(task: Task) {
+    if (!login) return;
+    updateClaim(task, claimTask({ status: task.status, claimed_by: task.claimed_by ?? null }, login), `Could not claim "${task.title}". Someone may have claimed it first.`);
+  }
+
+  function handleRelease(task: Task) {
+    if (!login) return;
+    updateClaim(task, releaseTask({ status: task.status, claimed_by: task.claimed_by ?? null }, login), `Could not release "${task.title}".`);
+  }
+
+  function renderTaskCard(task: Task) {
+    return (
+      <TaskCard
+        key={task.id}
+        task={task}
+        currentLogin={login}
+        onClaim={handleClaim}
+        onRelease={handleRelease}
+        busy={claimingId === task.id}
+        highlightTerms={highlightTerms}
+        onOpen={(t) => openTask(t.id)}
+        watched={watchedIds.includes(task.id)}
+        onToggleWatch={(t) => toggleWatch(t.id)}
+        claimExpiresAt={task.claimed_at ? claimDeadline({ difficulty: task.difficulty, claimed_at: task.claimed_at }, claimExpiryRules) : null}
+      />
+    );
+  }
+
   return (
     <section id="tasks" className="bg-gray-50 py-16 sm:py-24">
       <div className="mx-auto max-w-7xl px-6 lg:px-8">
         <div className="text-center mb-12">
           <h2 className="text-3xl font-bold tracking-tight text-gray-900 sm:text-4xl">
-            Available Tasks
+            Tasks
           </h2>
           <p className="mt-4 text-lg text-gray-600">
             Choose a task that matches your skill level and start contributing!
           </p>
+          <div className="mt-6">
+            <AuthButton login={login} onSignIn={signIn} onSignOut={signOut} />
+          </div>
         </div>
 
-        <div className="flex flex-wrap items-center justify-center gap-3 mb-12">
-          <div className="flex items-center gap-2 text-sm text-gray-600">
-            <Filter className="h-4 w-4" />
-            <span className="font-medium">Filter by difficulty:</span>
-          </div>
-          {difficulties.map((diff) => (
+        <div className="max-w-xl mx-auto mb-8">
+          <label className="relative block">
+            <span className="sr-only">Search tasks</span>
+            <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={filters.q}
+              onChange={(e) => updateFilters({ q: e.target.value })}
+              maxLength={MAX_SEARCH_LENGTH}
+              placeholder='Search tasks, e.g. csv or "temperature units"'
+              className="w-full rounded-xl border border-gray-200 bg-white py-3 pl-12 pr-12 text-gray-900 shadow-sm placeholder:text-gray-400 focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+            {filters.q && (
+              <button
+                type="button"
+                onClick={() => updateFilters({ q: '' })}
+                className="absolute right-3 top-1/2 -translate-y-1/2 rounded-full p-1 text-gray-400 hover:text-gray-600"
+                aria-label="Clear search"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </label>
+          <p className="mt-3 text-center text-sm text-gray-600">
+            New here?{' '}
+            <button
+              onClick={() => updateFilters(NEWCOMER_FILTERS)}
+              className="font-medium text-blue-600 hover:text-blue-700"
+            >
+              Show good first issues you can start right away
+            </button>
+          </p>
+        </div>
+
+        <RecommendedTasks onOpen={openTask} />
+
+        <div role="tablist" aria-label="Task status" className="flex flex-wrap justify-center gap-2 mb-8">
+          {TASK_STATUS_TABS.map((tab) => (
             <button
-              key={diff.value}
-              onClick={() => setSelectedDifficulty(diff.value)}
-              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-                selectedDifficulty === diff.value
-                  ? 'bg-blue-600 text-white shadow-lg scale-105'
-                  : 'bg-white text-gray-700 border border-gray-200 hover:border-blue-300 hover:shadow'
+              key={tab}
+              role="tab"
+              aria-selected={filters.status === tab}
+              onClick={() => updateFilters({ status: tab })}
+              className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                filters.status === tab
+                  ? 'bg-gray-900 text-white shadow'
+                  : 'bg-white text-gray-700 border border-gray-200 hover:border-gray-400'
               }`}
             >
-              {diff.label}
+              {TASK_STATUS_TAB_LABELS[tab]}
+              {tabCounts && (
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs ${
+                    filters.status === tab ? 'bg-white/20 text-white' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {tabCounts[tab]}
+                </span>
+              )}
             </button>
           ))}
         </div>
 
-        {loading ? (
-          <div className="flex justify-center items-center py-20">
-            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
-          </div>
-        ) : tasks.length === 0 ? (
-          <div className="text-center py-20">
-            <p className="text-lg text-gray-600">
-              No tasks found. Check back soon for new opportunities!
-            </p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {tasks.map((task) => (
-              <TaskCard key={task.id} task={task} />
+        {repositories.length > 1 && (
+          <FilterButtons
+            icon={FolderGit2}
+            label="Repository:"
+            options={repositoryOptions}
+            selected={filters.repository}
+            onSelect={(repository) => updateFilters({ repository })}
+          >
+            <label className="flex items-center gap-2 text-sm text-gray-600 ml-2">
+              <input
+                type="checkbox"
+                checked={groupByRepository}
+                onChange={(e) => setGroupByRepository(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              Group by repository
+            </label>
+          </FilterButtons>
+        )}
+
+        <FilterButtons
+          icon={Filter}
+          label="Filter by difficulty:"
+          options={difficulties}
+          selected={filters.difficulty}
+          onSelect={(difficulty) => updateFilters({ difficulty })}
+        />
+
+        <FilterButtons
+          icon={Filter}
+          label="Filter by category:"
+          options={categories}
+          selected={filters.category}
+          onSelect={(category) => updateFilters({ category })}
+        />
+
+        {visibleLabels.length > 0 && (
+          <div className="flex flex-wrap items-center justify-center gap-2 mb-6">
+            <div className="flex items-center gap-2 text-sm text-gray-600 mr-1">
+              <Tag className="h-4 w-4" />
+              <span className="font-medium">Labels:</span>
+            </div>
+            {visibleLabels.map((label) => (
+              <button
+                key={label}
+                onClick={() => toggleLabel(label)}
+                aria-pressed={filters.labels.includes(label)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-all ${
+                  filters.labels.includes(label)
+                    ? 'bg-blue-600 text-white shadow'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:border-blue-300'
+                }`}
+              >
+                {label}
+              </button>
             ))}
           </div>
         )}
 
+        <FilterButtons
+          icon={UserCheck}
+          label="Claimed:"
+          options={claimOptions}
+          selected={filters.claim}
+          onSelect={(claim) => updateFilters({ claim })}
+        >
+          <label className="flex items-center gap-2 text-sm text-gray-600 ml-2" title="Leave out tasks that wait on another task">
+            <input
+              type="checkbox"
+              checked={filters.hideBlocked}
+              onChange={(e) => updateFilters({ hideBlocked: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            Hide blocked tasks
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600 ml-2">
+            <input
+              type="checkbox"
+              checked={filters.watchlist}
+              onChange={(e) => updateFilters({ watchlist: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600"
+            />
+            <Star className="h-4 w-4" />
+            My watchlist
+            {watchedIds.length > 0 && <span className="text-gray-400">({watchedIds.length})</span>}
+          </label>
+        </FilterButtons>
+
+        <FilterButtons
+          icon={Clock}
+          label="Time available:"
+          options={timeBudgets}
+          selected={filters.time}
+          onSelect={(time) => updateFilters({ time })}
+          className={hasFilters ? 'mb-6' : 'mb-12'}
+        >
+          <label className="flex items-center gap-2 text-sm text-gray-600 ml-2">
+            <ArrowUpDown className="h-4 w-4" />
+            <span className="sr-only">Sort tasks</span>
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as TaskSort })}
+              className="px-3 py-2 rounded-lg bg-white border border-gray-200 text-gray-700 text-sm font-medium"
+            >
+              {TASK_SORTS.map((value) => (
+                <option key={value} value={value}>
+                  {TASK_SORT_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <a
+            href={`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/task-feed?${feedParams(filters, 'atom')}`}
+            title="Follow new open tasks matching these filters in a feed reader"
+            className="flex items-center gap-1.5 text-sm font-medium text-gray-600 hover:text-orange-600 ml-2"
+          >
+            <Rss className="h-4 w-4" />
+            Feed
+          </a>
+        </FilterButtons>
+
+        {hasFilters && (
+          <div className="mb-12 text-center">
+            <button
+              onClick={() => updateFilters({ q: '', difficulty: 'all', category: 'all', labels: [], claim: 'all', hideBlocked: false, watchlist: false, time: 'all', repository: 'all' })}
+              className="inline-flex items-center gap-1.5 text-sm font-medium text-gray-600 hover:text-blue-600"
+            >
+              <X className="h-4 w-4" />
+              Clear filters
+            </button>
+          </div>
+        )}
+
+        <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_18rem] lg:items-start lg:gap-8">
+          <div>
+            {claimError && (
+              <div className="mb-6 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 text-center">
+                {claimError}
+              </div>
+            )}
+
+            {loading ? (
+              <div className="flex justify-center items-center py-20">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+              </div>
+            ) : tasks.length === 0 ? (
+              <div className="text-center py-20">
+                <p className="text-lg text-gray-600">
+                  {search.trim()
+                    ? `No tasks match "${search.trim()}". Try fewer or different words.`
+                    : 'No tasks found. Check back soon for new opportunities!'}
+                </p>
+              </div>
+            ) : taskGroups ? (
+              <div className="space-y-12">
+                {taskGroups.map((group) => (
+                  <div key={group.repository.full_name}>
+                    <div className="mb-6">
+                      <h3 className="text-xl font-semibold text-gray-900">{group.repository.display_name}</h3>
+                      {group.repository.description && (
+                        <p className="mt-1 text-sm text-gray-600">{group.repository.description}</p>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                      {group.tasks.map(renderTaskCard)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                {tasks.map(renderTaskCard)}
+              </div>
+            )}
+
+            {!loading && hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-8">
+                {loadingMore && <Loader2 className="h-6 w-6 animate-spin text-blue-600" />}
+              </div>
+            )}
+          </div>
+
+          <aside className="mt-12 lg:sticky lg:top-8 lg:mt-0">
+            <Leaderboard onOpen={openContributor} />
+          </aside>
+        </div>
+
         <div className="mt-12 text-center">
           <p className="text-sm text-gray-600 mb-4">
             Want to add your own task or suggestion?
           </p>
           <a
-            href="https://github.com/jasonetorres/torctoberfest/issues/new"
+            href={`https://github.com/${suggestRepository}/issues/new`}
             target="_blank"
             rel="noopener noreferrer"
             className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-white text-gray-900 border-2 border-gray-300 hover:border-blue-600 hover:text-blue-600 font-medium transition-all"
@@ -134,6 +767,38 @@ export default function TaskBoard() {
           </a>
         </div>
       </div>
+
+      {/* A task opened from a profile replaces it until going back. */}
+      {selectedTaskId ? (
+        <Suspense fallback={null}>
+          <TaskDetail taskId={selectedTaskId} onClose={closeTask} onOpenTask={openTask} />
+        </Suspense>
+      ) : selectedContributor ? (
+        <ContributorProfile login={selectedContributor} onClose={closeContributor} onOpenTask={openTask} />
+      ) : null}
+
+      <WatchNotifications watchedIds={watchedIds} login={login} onOpen={openTask} />
+
+      {newTaskCount > 0 && (
+        <div
+          role="status"
+          className="fixed bottom-6 left-1/2 z-50 -translate-x-1/2 inline-flex items-center gap-3 rounded-full bg-gray-900 px-5 py-3 text-sm text-white shadow-xl"
+        >
+          <Sparkles className="h-4 w-4 text-yellow-300" />
+          <button
+            onClick={() => {
+              document.getElementById('tasks')?.scrollIntoView({ behavior: 'smooth' });
+              setNewTaskCount(0);
+            }}
+            className="font-medium hover:underline"
+          >
+            {newTaskCount} new {newTaskCount === 1 ? 'task' : 'tasks'}
+          </button>
+          <button onClick={() => setNewTaskCount(0)} aria-label="Dismiss" className="text-gray-400 hover:text-white">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
     </section>
   );
 }
@@ -1,53 +1,139 @@
-import { Tag, ExternalLink } from 'lucide-react';
+import type { MouseEvent } from 'react';
+import { Tag, ExternalLink, Clock, Hand, Undo2, Hourglass, Lock, Star } from 'lucide-react';
+import { taskDetailUrl } from '../hooks/useDetailParam';
+import { supabase } from '../lib/supabase';
+import { daysUntil } from '../../supabase/functions/_shared/claimExpiry.ts';
+import { formatEstimatedRange } from '../../supabase/functions/_shared/estimatedTime.ts';
+import { TASK_CATEGORY_LABELS, TASK_DIFFICULTY_LABELS } from '../../supabase/functions/_shared/labelMapping.ts';
+import { TASK_STATUS_LABELS, claimTask, releaseTask } from '../../supabase/functions/_shared/taskStatus.ts';
+import { categoryColors, difficultyColors, statusColors } from '../lib/taskColors';
 import type { Task } from '../types/task';
+import HighlightedText from './HighlightedText';
 
 interface TaskCardProps {
   task: Task;
+  /** GitHub login of the signed-in contributor, if any. */
+  currentLogin?: string | null;
+  onClaim?: (task: Task) => void;
+  onRelease?: (task: Task) => void;
+  busy?: boolean;
+  /** When the current claim expires, if the task is claimed and a rule applies. */
+  claimExpiresAt?: Date | null;
+  /** Search words to highlight in the title, description and labels. */
+  highlightTerms?: string[];
+  /** Opens the detail view. Without it the title links to the GitHub issue. */
+  onOpen?: (task: Task) => void;
+  /** Whether the task is on the viewer's watchlist. */
+  watched?: boolean;
+  /** Stars or unstars the task. Without it no star is shown. */
+  onToggleWatch?: (task: Task) => void;
 }
 
-const difficultyColors = {
-  'good-first-issue': 'bg-green-100 text-green-800 border-green-200',
-  'beginner': 'bg-blue-100 text-blue-800 border-blue-200',
-  'intermediate': 'bg-orange-100 text-orange-800 border-orange-200',
-  'advanced': 'bg-red-100 text-red-800 border-red-200',
-};
+/**
+ * GitHub's new-issue form, pre-filled from a task that has no issue yet. The
+ * body is left out unless the full description is known; lists only load a
+ * preview, which would cut the task short.
+ */
+function newIssueUrl(task: Task, description: string | null | undefined): string {
+  const params = new URLSearchParams({ title: task.title, labels: task.labels.join(',') });
+  if (description) {
+    params.set('body', description);
+  }
+  return `https://github.com/${task.repository}/issues/new?${params}`;
+}
+
+export default function TaskCard({ task, currentLogin, onClaim, onRelease, busy = false, claimExpiresAt, highlightTerms = [], onOpen, watched = false, onToggleWatch }: TaskCardProps) {
+  const state = { status: task.status, claimed_by: task.claimed_by ?? null };
+  const canClaim = Boolean(currentLogin && onClaim && claimTask(state, currentLogin));
+  const canRelease = Boolean(currentLogin && onRelease && releaseTask(state, currentLogin));
+  const preview = task.description ?? task.description_preview ?? '';
+  const claimDaysLeft = task.status === 'in-progress' && claimExpiresAt ? daysUntil(claimExpiresAt, new Date()) : null;
+
+  const estimate = task.estimated_minutes_min != null && task.estimated_minutes_max != null
+    ? formatEstimatedRange({ min: task.estimated_minutes_min, max: task.estimated_minutes_max })
+    : task.estimated_time;
+  const issueUrl = task.github_issue_url || newIssueUrl(task, task.description);
 
-const categoryColors = {
-  'utility': 'bg-slate-100 text-slate-700',
-  'documentation': 'bg-violet-100 text-violet-700',
-  'testing': 'bg-emerald-100 text-emerald-700',
-  'infrastructure': 'bg-amber-100 text-amber-700',
-  'feature': 'bg-cyan-100 text-cyan-700',
-};
+  /** Loads the full description before opening the new-issue form. */
+  async function openNewIssue(e: MouseEvent<HTMLAnchorElement>) {
+    if (task.github_issue_url || task.description != null || e.metaKey || e.ctrlKey || e.shiftKey) return;
+    e.preventDefault();
 
-export default function TaskCard({ task }: TaskCardProps) {
-  const issueUrl = task.github_issue_url || `https://github.com/jasonetorres/torctoberfest/issues/new?title=${encodeURIComponent(task.title)}&body=${encodeURIComponent(task.description)}&labels=${task.labels.join(',')}`;
+    // Open the tab right away: browsers block windows opened after an await.
+    const tab = window.open('', '_blank');
+    const { data, error } = await supabase.from('tasks').select('description').eq('id', task.id).maybeSingle();
+    if (error) {
+      console.error('Error fetching task description:', error);
+    }
+
+    const url = newIssueUrl(task, data?.description);
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = url;
+    } else {
+      window.location.href = url;
+    }
+  }
 
   return (
-    <a
-      href={issueUrl}
-      target="_blank"
-      rel="noopener noreferrer"
-      className="block bg-white rounded-xl shadow-sm hover:shadow-lg transition-all border border-gray-200 p-6 hover:border-blue-400 hover:scale-[1.02] cursor-pointer"
-    >
+    <div className="block bg-white rounded-xl shadow-sm hover:shadow-lg transition-all border border-gray-200 p-6 hover:border-blue-400">
       <div className="flex items-start justify-between mb-3">
         <div className="flex-1">
           <h3 className="text-lg font-semibold text-gray-900 mb-2">
-            {task.title}
+            {onOpen ? (
+              <a
+                href={taskDetailUrl(task.id)}
+                onClick={(e) => {
+                  if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+                  e.preventDefault();
+                  onOpen(task);
+                }}
+                className="hover:text-blue-600 transition-colors"
+              >
+                <HighlightedText text={task.title} terms={highlightTerms} />
+              </a>
+            ) : (
+              <a href={issueUrl} onClick={openNewIssue} target="_blank" rel="noopener noreferrer" className="hover:text-blue-600 transition-colors">
+                <HighlightedText text={task.title} terms={highlightTerms} />
+              </a>
+            )}
           </h3>
           <p className="text-sm text-gray-600 line-clamp-2">
-            {task.description}
+            <HighlightedText text={preview} terms={highlightTerms} />
           </p>
         </div>
+        {onToggleWatch && (
+          <button
+            onClick={() => onToggleWatch(task)}
+            aria-pressed={watched}
+            aria-label={watched ? 'Remove from watchlist' : 'Add to watchlist'}
+            title={watched ? 'Remove from watchlist' : 'Watch this task'}
+            className="ml-3 -mr-1 -mt-1 rounded-full p-1.5 text-gray-400 hover:bg-gray-100 hover:text-yellow-500"
+          >
+            <Star className={`h-5 w-5 ${watched ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+          </button>
+        )}
       </div>
 
       <div className="flex flex-wrap gap-2 mb-4">
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${statusColors[task.status]}`}>
+          {TASK_STATUS_LABELS[task.status]}
+        </span>
         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${difficultyColors[task.difficulty]}`}>
-          {task.difficulty.replace('-', ' ')}
+          {TASK_DIFFICULTY_LABELS[task.difficulty]}
         </span>
         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${categoryColors[task.category]}`}>
-          {task.category}
+          {TASK_CATEGORY_LABELS[task.category]}
         </span>
+        {task.blocked && (
+          <span
+            className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+            title="Waits on another task that is not done yet"
+          >
+            <Lock className="h-3 w-3" />
+            Blocked
+          </span>
+        )}
       </div>
 
       {task.labels.length > 0 && (
@@ -58,26 +144,75 @@ export default function TaskCard({ task }: TaskCardProps) {
               className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs text-gray-600 bg-gray-50"
             >
               <Tag className="h-3 w-3" />
-              {label}
+              <HighlightedText text={label} terms={highlightTerms} />
             </span>
           ))}
         </div>
       )}
 
-      <div className="flex items-center justify-end pt-4 border-t border-gray-100">
-        <span className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors">
+      <div className="flex items-center justify-between pt-4 border-t border-gray-100">
+        {estimate ? (
+          <span className="inline-flex items-center gap-1.5 text-sm text-gray-500" title={task.estimated_time}>
+            <Clock className="h-4 w-4" />
+            {estimate}
+          </span>
+        ) : (
+          <span />
+        )}
+        <a
+          href={issueUrl}
+          onClick={openNewIssue}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+        >
           {task.github_issue_url ? 'View Issue' : 'Create Issue'}
           <ExternalLink className="h-4 w-4" />
-        </span>
+        </a>
       </div>
 
-      {task.claimed_by && (
-        <div className="mt-3 pt-3 border-t border-gray-100">
-          <span className="text-xs text-gray-500">
-            Claimed by <span className="font-medium text-gray-700">{task.claimed_by}</span>
-          </span>
+      {(task.claimed_by || canClaim) && (
+        <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
+          {task.claimed_by ? (
+            <span className="text-xs text-gray-500">
+              Claimed by <span className="font-medium text-gray-700">{task.claimed_by}</span>
+              {claimDaysLeft !== null && (
+                <span
+                  className={`inline-flex items-center gap-1 ml-2 ${claimDaysLeft <= 2 ? 'text-amber-600' : ''}`}
+                  title={claimExpiresAt?.toLocaleString()}
+                >
+                  <Hourglass className="h-3 w-3" />
+                  {claimDaysLeft > 0
+                    ? `claim expires in ${claimDaysLeft} day${claimDaysLeft === 1 ? '' : 's'}`
+                    : 'claim expired'}
+                </span>
+              )}
+            </span>
+          ) : (
+            <span className="text-xs text-gray-500">Unclaimed</span>
+          )}
+          {canClaim && (
+            <button
+              onClick={() => onClaim?.(task)}
+              disabled={busy}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-500 disabled:opacity-50 transition-colors"
+            >
+              <Hand className="h-3.5 w-3.5" />
+              Claim
+            </button>
+          )}
+          {canRelease && (
+            <button
+              onClick={() => onRelease?.(task)}
+              disabled={busy}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 text-xs font-medium hover:border-red-400 hover:text-red-600 disabled:opacity-50 transition-colors"
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+              Unclaim
+            </button>
+          )}
         </div>
       )}
-    </a>
+    </div>
   );
 }
@@ -0,0 +1,391 @@
+import { useEffect, useState } from 'react';
+import {
+  X,
+  Loader2,
+  Clock,
+  Tag,
+  ExternalLink,
+  GitPullRequest,
+  GitMerge,
+  GitPullRequestClosed,
+  UserRound,
+  FolderGit2,
+  Lock,
+} from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import { formatEstimatedRange } from '../../supabase/functions/_shared/estimatedTime.ts';
+import { TASK_CATEGORY_LABELS, TASK_DIFFICULTY_LABELS } from '../../supabase/functions/_shared/labelMapping.ts';
+import { TASK_STATUS_LABELS } from '../../supabase/functions/_shared/taskStatus.ts';
+import { categoryColors, difficultyColors, statusColors } from '../lib/taskColors';
+import type { Task, TaskEvent, TaskLink, TaskPullRequest } from '../types/task';
+import Markdown from './Markdown';
+import TaskLinks from './TaskLinks';
+import TaskTimeline from './TaskTimeline';
+
+interface TaskDetailProps {
+  taskId: string;
+  onClose: () => void;
+  /** Opens a linked task in place of this one. */
+  onOpenTask?: (id: string) => void;
+}
+
+type LinkedTask = NonNullable<TaskLink['task']> & { github_issue_url: string | null };
+
+/** Escapes `%`, `_` and `\` for an exact, case-insensitive `ilike` match. */
+function escapeLike(value: string) {
+  return value.replace(/[%_\\]/g, '\\$&');
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function PullRequestIcon({ pullRequest }: { pullRequest: TaskPullRequest }) {
+  if (pullRequest.merged) {
+    return <GitMerge className="h-4 w-4 text-purple-600" />;
+  }
+  if (pullRequest.state === 'closed') {
+    return <GitPullRequestClosed className="h-4 w-4 text-red-600" />;
+  }
+  return <GitPullRequest className="h-4 w-4 text-green-600" />;
+}
+
+export default function TaskDetail({ taskId, onClose, onOpenTask }: TaskDetailProps) {
+  const [task, setTask] = useState<Task | null>(null);
+  const [pullRequests, setPullRequests] = useState<TaskPullRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  // Bumped when the task or a linked one changes, so history and links refetch.
+  const [version, setVersion] = useState(0);
+  const issueUrl = task?.github_issue_url;
+
+  useTaskChanges((payload) => {
+    if (payload.eventType === 'DELETE') return;
+    if (payload.new.id === taskId) {
+      setTask(payload.new);
+      setVersion((current) => current + 1);
+    } else if (links.some((link) => link.task?.id === payload.new.id)) {
+      setVersion((current) => current + 1);
+    }
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchTask() {
+      setLoading(true);
+      try {
+        const [taskResult, pullRequestResult] = await Promise.all([
+          supabase.from('tasks').select('*').eq('id', taskId).maybeSingle(),
+          supabase
+            .from('task_pull_requests')
+            .select('number, html_url, author, state, merged, updated_at')
+            .eq('task_id', taskId)
+            .order('number'),
+        ]);
+
+        if (taskResult.error) {
+          throw taskResult.error;
+        }
+        if (pullRequestResult.error) {
+          console.error('Error fetching pull requests:', pullRequestResult.error);
+        }
+        if (cancelled) return;
+
+        setTask(taskResult.data);
+        setPullRequests(pullRequestResult.data || []);
+      } catch (error) {
+        console.error('Error fetching task:', error);
+        if (!cancelled) setTask(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchTask();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchEvents() {
+      const { data, error } = await supabase
+        .from('task_events')
+        .select('id, event_type, actor, from_value, to_value, labels_added, labels_removed, created_at')
+        .eq('task_id', taskId)
+        .order('created_at')
+        .returns<TaskEvent[]>();
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching task history:', error);
+        return;
+      }
+
+      setEvents(data || []);
+    }
+
+    fetchEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, version]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchLinks() {
+      if (!issueUrl) {
+        setLinks([]);
+        return;
+      }
+
+      const [outgoing, incoming] = await Promise.all([
+        supabase.from('task_dependencies').select('kind, issue_url').eq('task_id', taskId),
+        supabase.from('task_dependencies').select('kind, task_id').ilike('issue_url', escapeLike(issueUrl)),
+      ]);
+      if (outgoing.error || incoming.error) {
+        console.error('Error fetching task links:', outgoing.error || incoming.error);
+        return;
+      }
+
+      const urls = (outgoing.data || []).map((link) => link.issue_url);
+      const ids = (incoming.data || []).map((link) => link.task_id);
+      const columns = 'id, title, status, github_issue_url';
+      const [byUrl, byId] = await Promise.all([
+        urls.length > 0
+          ? supabase.from('tasks').select(columns).in('github_issue_url', urls).returns<LinkedTask[]>()
+          : { data: [], error: null },
+        ids.length > 0
+          ? supabase.from('tasks').select(columns).in('id', ids).returns<LinkedTask[]>()
+          : { data: [], error: null },
+      ]);
+      if (cancelled) return;
+      if (byUrl.error || byId.error) {
+        console.error('Error fetching linked tasks:', byUrl.error || byId.error);
+        return;
+      }
+
+      const summary = ({ id, title, status }: LinkedTask) => ({ id, title, status });
+      const forUrl = (url: string) =>
+        (byUrl.data || []).find((linked) => linked.github_issue_url?.toLowerCase() === url.toLowerCase());
+
+      setLinks([
+        ...(outgoing.data || []).map((link) => {
+          const linked = forUrl(link.issue_url);
+          return { kind: link.kind, issue_url: link.issue_url, task: linked ? summary(linked) : null };
+        }),
+        ...(incoming.data || []).flatMap((link) => {
+          const linked = (byId.data || []).find((t) => t.id === link.task_id);
+          if (!linked) return [];
+          return [{
+            kind: link.kind === 'subtask' ? 'epic' as const : 'blocks' as const,
+            issue_url: linked.github_issue_url ?? '',
+            task: summary(linked),
+          }];
+        }),
+      ]);
+    }
+
+    fetchLinks();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, issueUrl, version]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = '';
+    };
+  }, [onClose]);
+
+  const estimate = task && (task.estimated_minutes_min != null && task.estimated_minutes_max != null
+    ? formatEstimatedRange({ min: task.estimated_minutes_min, max: task.estimated_minutes_max })
+    : task.estimated_time);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-gray-900/50 p-4 sm:p-8"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="task-detail-title"
+        className="relative w-full max-w-3xl rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          aria-label="Close"
+          className="absolute right-4 top-4 rounded-full p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-24">
+            <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          </div>
+        ) : !task ? (
+          <div className="px-8 py-24 text-center">
+            <p className="text-lg text-gray-600">This task does not exist or was removed.</p>
+          </div>
+        ) : (
+          <div className="p-6 sm:p-8">
+            <div className="flex flex-wrap gap-2 mb-4 pr-10">
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${statusColors[task.status]}`}>
+                {TASK_STATUS_LABELS[task.status]}
+              </span>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${difficultyColors[task.difficulty]}`}>
+                {TASK_DIFFICULTY_LABELS[task.difficulty]}
+              </span>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${categoryColors[task.category]}`}>
+                {TASK_CATEGORY_LABELS[task.category]}
+              </span>
+              {task.blocked && (
+                <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                  <Lock className="h-3 w-3" />
+                  Blocked
+                </span>
+              )}
+            </div>
+
+            <h2 id="task-detail-title" className="text-2xl font-bold text-gray-900 mb-6">
+              {task.title}
+            </h2>
+
+            <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2 mb-8 text-sm">
+              <div className="flex items-center gap-2 text-gray-600">
+                <FolderGit2 className="h-4 w-4" />
+                <dt className="sr-only">Repository</dt>
+                <dd>{task.repository}</dd>
+              </div>
+              {estimate && (
+                <div className="flex items-center gap-2 text-gray-600" title={task.estimated_time}>
+                  <Clock className="h-4 w-4" />
+                  <dt className="sr-only">Estimated time</dt>
+                  <dd>{estimate}</dd>
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-gray-600">
+                <UserRound className="h-4 w-4" />
+                <dt className="sr-only">Claimed by</dt>
+                <dd>
+                  {task.claimed_by ? (
+                    <>
+                      Claimed by{' '}
+                      <a
+                        href={`https://github.com/${task.claimed_by}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {task.claimed_by}
+                      </a>
+                      {task.claimed_at && <span className="text-gray-400"> · {formatTimestamp(task.claimed_at)}</span>}
+                    </>
+                  ) : (
+                    'Unclaimed'
+                  )}
+                </dd>
+              </div>
+              {task.github_issue_url && (
+                <div className="flex items-center gap-2">
+                  <ExternalLink className="h-4 w-4 text-gray-600" />
+                  <dt className="sr-only">Issue</dt>
+                  <dd>
+                    <a
+                      href={task.github_issue_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium text-blue-600 hover:text-blue-700"
+                    >
+                      View issue on GitHub
+                    </a>
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {task.labels.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-8">
+                {task.labels.map((label) => (
+                  <span
+                    key={label}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs text-gray-600 bg-gray-50"
+                  >
+                    <Tag className="h-3 w-3" />
+                    {label}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {task.description ? (
+              <Markdown>{task.description}</Markdown>
+            ) : (
+              <p className="text-sm text-gray-500 italic">No description provided.</p>
+            )}
+
+            {links.length > 0 && (
+              <section className="mt-8 border-t border-gray-100 pt-6">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">Related tasks</h3>
+                <TaskLinks links={links} onOpenTask={onOpenTask} />
+              </section>
+            )}
+
+            {pullRequests.length > 0 && (
+              <section className="mt-8 border-t border-gray-100 pt-6">
+                <h3 className="text-sm font-semibold text-gray-900 mb-3">Linked pull requests</h3>
+                <ul className="space-y-2">
+                  {pullRequests.map((pullRequest) => (
+                    <li key={pullRequest.number} className="flex items-center gap-2 text-sm">
+                      <PullRequestIcon pullRequest={pullRequest} />
+                      <a
+                        href={pullRequest.html_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        #{pullRequest.number}
+                      </a>
+                      <span className="text-gray-500">
+                        by {pullRequest.author}
+                        {pullRequest.merged ? ' · merged' : pullRequest.state === 'closed' ? ' · closed' : ''}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {events.length > 0 && (
+              <section className="mt-8 border-t border-gray-100 pt-6">
+                <h3 className="text-sm font-semibold text-gray-900 mb-4">History</h3>
+                <TaskTimeline events={events} />
+              </section>
+            )}
+
+            <div className="mt-8 border-t border-gray-100 pt-4 flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-400">
+              <span>Created {formatTimestamp(task.created_at)}</span>
+              <span>Updated {formatTimestamp(task.updated_at)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, type FormEvent } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  TASK_CATEGORIES,
+  TASK_CATEGORY_LABELS,
+  TASK_DIFFICULTIES,
+  TASK_DIFFICULTY_LABELS,
+} from '../../supabase/functions/_shared/labelMapping.ts';
+import { parseLabelInput, validateTaskDraft, type TaskDraft } from '../../supabase/functions/_shared/taskAdmin.ts';
+import type { Repository } from '../types/repository';
+import type { TaskCategory, TaskDifficulty } from '../types/task';
+
+interface TaskFormProps {
+  initial: TaskDraft;
+  repositories: Repository[];
+  /** Offers to open a GitHub issue after saving; only for tasks without one. */
+  canPublish: boolean;
+  busy: boolean;
+  submitLabel: string;
+  onSubmit: (draft: TaskDraft, publish: boolean) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'mt-1 w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-400 focus:outline-none focus:ring-2 focus:ring-blue-100';
+
+export default function TaskForm({ initial, repositories, canPublish, busy, submitLabel, onSubmit, onCancel }: TaskFormProps) {
+  const [draft, setDraft] = useState(initial);
+  const [labelInput, setLabelInput] = useState(initial.labels.join(', '));
+  const [publish, setPublish] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  function update(fields: Partial<TaskDraft>) {
+    setDraft((current) => ({ ...current, ...fields }));
+  }
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const next = { ...draft, labels: parseLabelInput(labelInput) };
+    const problems = validateTaskDraft(next);
+    setErrors(problems);
+    if (problems.length === 0) {
+      onSubmit(next, canPublish && publish);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block text-sm font-medium text-gray-700">
+        Title
+        <input value={draft.title} onChange={(e) => update({ title: e.target.value })} className={inputClassName} />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Description <span className="font-normal text-gray-400">(Markdown)</span>
+        <textarea
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={6}
+          className={`${inputClassName} font-mono`}
+        />
+      </label>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Repository
+          <select value={draft.repository} onChange={(e) => update({ repository: e.target.value })} className={inputClassName}>
+            <option value="">Choose…</option>
+            {repositories.map((repo) => (
+              <option key={repo.full_name} value={repo.full_name}>
+                {repo.display_name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Difficulty
+          <select
+            value={draft.difficulty}
+            onChange={(e) => update({ difficulty: e.target.value as TaskDifficulty })}
+            className={inputClassName}
+          >
+            {TASK_DIFFICULTIES.map((value) => (
+              <option key={value} value={value}>
+                {TASK_DIFFICULTY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Category
+          <select
+            value={draft.category}
+            onChange={(e) => update({ category: e.target.value as TaskCategory })}
+            className={inputClassName}
+          >
+            {TASK_CATEGORIES.map((value) => (
+              <option key={value} value={value}>
+                {TASK_CATEGORY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Labels <span className="font-normal text-gray-400">(comma-separated)</span>
+          <input value={labelInput} onChange={(e) => setLabelInput(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Estimated time
+          <input
+            value={draft.estimated_time}
+            onChange={(e) => update({ estimated_time: e.target.value })}
+            placeholder="e.g. 1-2 hours"
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      {canPublish && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={publish}
+            onChange={(e) => setPublish(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          Publish to GitHub as an issue
+        </label>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700 list-disc list-inside">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 rounded-lg border border-gray-200 bg-white text-sm font-medium text-gray-700 hover:border-gray-400"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={busy}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-sm font-semibold text-white hover:bg-blue-500 disabled:opacity-60"
+        >
+          {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,87 @@
+import { Layers, ListChecks, Lock, Unlock, type LucideIcon } from 'lucide-react';
+import { taskDetailUrl } from '../hooks/useDetailParam';
+import { isBlocking } from '../../supabase/functions/_shared/taskDependencies.ts';
+import { TASK_STATUS_LABELS } from '../../supabase/functions/_shared/taskStatus.ts';
+import { statusColors } from '../lib/taskColors';
+import type { TaskLink } from '../types/task';
+
+const sections: Array<{ kind: TaskLink['kind']; title: string; icon: LucideIcon }> = [
+  { kind: 'blocked_by', title: 'Blocked by', icon: Lock },
+  { kind: 'epic', title: 'Part of', icon: Layers },
+  { kind: 'subtask', title: 'Sub-tasks', icon: ListChecks },
+  { kind: 'blocks', title: 'Blocks', icon: Unlock },
+];
+
+function issueLabel(url: string) {
+  const match = url.match(/github\.com\/([^/]+\/[^/]+)\/issues\/(\d+)/);
+  return match ? `${match[1]}#${match[2]}` : url;
+}
+
+interface TaskLinksProps {
+  links: TaskLink[];
+  onOpenTask?: (id: string) => void;
+}
+
+/** Dependencies and epics of a task, grouped by how they relate to it. */
+export default function TaskLinks({ links, onOpenTask }: TaskLinksProps) {
+  return (
+    <div className="space-y-5">
+      {sections.map(({ kind, title, icon: Icon }) => {
+        const items = links.filter((link) => link.kind === kind);
+        if (items.length === 0) return null;
+
+        const done = items.filter((link) => link.task && !isBlocking(link.task.status)).length;
+
+        return (
+          <div key={kind}>
+            <h4 className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-gray-500 mb-2">
+              <Icon className="h-4 w-4" />
+              {title}
+              {kind === 'subtask' && (
+                <span className="normal-case tracking-normal text-gray-400">
+                  · {done} of {items.length} done
+                </span>
+              )}
+            </h4>
+            <ul className="space-y-1.5">
+              {items.map(({ issue_url, task }) => (
+                <li key={`${issue_url}-${task?.id}`} className="flex items-center gap-2 text-sm">
+                  {task ? (
+                    <>
+                      <span
+                        className={`inline-flex shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${statusColors[task.status]}`}
+                      >
+                        {TASK_STATUS_LABELS[task.status]}
+                      </span>
+                      <a
+                        href={taskDetailUrl(task.id)}
+                        onClick={(e) => {
+                          if (!onOpenTask || e.metaKey || e.ctrlKey || e.shiftKey) return;
+                          e.preventDefault();
+                          onOpenTask(task.id);
+                        }}
+                        className="font-medium text-gray-900 hover:text-blue-600"
+                      >
+                        {task.title}
+                      </a>
+                    </>
+                  ) : (
+                    <a
+                      href={issue_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-600 hover:text-blue-600"
+                      title="Not on the task board"
+                    >
+                      {issueLabel(issue_url)}
+                    </a>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
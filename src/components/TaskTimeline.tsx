@@ -0,0 +1,36 @@
+import { CircleDot, Hand, PlusCircle, Tag, Undo2, type LucideIcon } from 'lucide-react';
+import { describeTaskEvent, type TaskEvent, type TaskEventType } from '../../supabase/functions/_shared/taskEvents.ts';
+
+const eventIcons: Record<TaskEventType, { icon: LucideIcon; className: string }> = {
+  'created': { icon: PlusCircle, className: 'text-gray-500' },
+  'claimed': { icon: Hand, className: 'text-blue-600' },
+  'released': { icon: Undo2, className: 'text-gray-500' },
+  'status_changed': { icon: CircleDot, className: 'text-purple-600' },
+  'labels_changed': { icon: Tag, className: 'text-gray-500' },
+};
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/** History of a task, oldest event first. */
+export default function TaskTimeline({ events }: { events: TaskEvent[] }) {
+  return (
+    <ol className="relative space-y-4 border-l border-gray-200 ml-2">
+      {events.map((event) => {
+        const { icon: Icon, className } = eventIcons[event.event_type];
+        return (
+          <li key={event.id} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white ring-4 ring-white">
+              <Icon className={`h-4 w-4 ${className}`} />
+            </span>
+            <p className="text-sm text-gray-900">{describeTaskEvent(event)}</p>
+            <time dateTime={event.created_at} className="text-xs text-gray-400">
+              {formatTimestamp(event.created_at)}
+            </time>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bell, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { taskDetailUrl } from '../hooks/useDetailParam';
+import { useTaskChanges } from '../hooks/useTaskChanges';
+import {
+  describeWatchedChange,
+  type WatchNotice,
+  type WatchedTaskState,
+} from '../../supabase/functions/_shared/watchlist.ts';
+
+/** How long a notice stays up. */
+const NOTICE_MS = 8000;
+
+interface Notice extends WatchNotice {
+  id: number;
+  taskId: string;
+}
+
+interface WatchNotificationsProps {
+  watchedIds: string[];
+  /** GitHub login of the viewer; their own claims are not announced. */
+  login: string | null;
+  onOpen: (taskId: string) => void;
+}
+
+/** Announces claims, releases and closures of watched tasks as they happen. */
+export default function WatchNotifications({ watchedIds, login, onOpen }: WatchNotificationsProps) {
+  const [notices, setNotices] = useState<Notice[]>([]);
+  // Last known state of each watched task; realtime updates only carry the new row.
+  const known = useRef(new Map<string, WatchedTaskState>());
+  const nextId = useRef(0);
+  const watchedKey = watchedIds.join(',');
+
+  useEffect(() => {
+    const ids = watchedKey ? watchedKey.split(',') : [];
+    if (ids.length === 0) {
+      known.current = new Map();
+      return;
+    }
+    let cancelled = false;
+
+    supabase
+      .from('tasks')
+      .select('id, title, status, claimed_by')
+      .in('id', ids)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching watched tasks:', error);
+          return;
+        }
+        known.current = new Map((data || []).map((task) => [task.id, task]));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [watchedKey]);
+
+  useEffect(() => {
+    if (notices.length === 0) return;
+
+    const timeout = setTimeout(() => setNotices((current) => current.slice(1)), NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [notices]);
+
+  useTaskChanges((payload) => {
+    if (payload.eventType !== 'UPDATE') return;
+
+    const task = payload.new;
+    const before = known.current.get(task.id);
+    if (!before) return;
+
+    const after = { title: task.title, status: task.status, claimed_by: task.claimed_by ?? null };
+    known.current.set(task.id, after);
+
+    const notice = describeWatchedChange(before, after, login);
+    if (notice) {
+      setNotices((current) => [...current, { ...notice, id: nextId.current++, taskId: task.id }]);
+    }
+  });
+
+  if (notices.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul aria-live="polite" className="fixed bottom-6 right-6 z-50 flex w-80 max-w-[calc(100vw-3rem)] flex-col gap-2">
+      {notices.map((notice) => (
+        <li key={notice.id} className="flex items-start gap-3 rounded-xl bg-gray-900 px-4 py-3 text-sm text-white shadow-xl">
+          <Bell className="mt-0.5 h-4 w-4 shrink-0 text-yellow-300" />
+          <a
+            href={taskDetailUrl(notice.taskId)}
+            onClick={(e) => {
+              if (e.metaKey || e.ctrlKey || e.shiftKey) return;
+              e.preventDefault();
+              onOpen(notice.taskId);
+            }}
+            className="flex-1 hover:underline"
+          >
+            {notice.message}
+          </a>
+          <button
+            onClick={() => setNotices((current) => current.filter((n) => n.id !== notice.id))}
+            aria-label="Dismiss"
+            className="text-gray-400 hover:text-white"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
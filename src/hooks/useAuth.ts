@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Tracks the Supabase session of a contributor signed in with GitHub.
+ * `login` is the GitHub username, the same value the webhook stores in `claimed_by`.
+ * It comes from the linked GitHub identity, like `github_login()` in the
+ * database; `user_metadata` can be edited by the user and is not trusted.
+ */
+export function useAuth() {
+  const [session, setSession] = useState<Session | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const github = session?.user.identities?.find((identity) => identity.provider === 'github');
+  const login: string | null = github?.identity_data?.user_name ?? null;
+
+  async function signIn() {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: 'github',
+      options: { redirectTo: window.location.href },
+    });
+
+    if (error) {
+      console.error('Error signing in:', error);
+    }
+  }
+
+  async function signOut() {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      console.error('Error signing out:', error);
+    }
+  }
+
+  return { session, login, signIn, signOut };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+
+const TASK_PARAM = 'task';
+const CONTRIBUTOR_PARAM = 'contributor';
+
+function readParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name);
+}
+
+/**
+ * Link that sets one query parameter, keeping the rest of the current URL
+ * (filters, other open views) so closing the view returns to the same board.
+ */
+function detailUrl(name: string, value: string): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(name, value);
+  url.hash = '';
+  return url.toString();
+}
+
+/** Link to a task's detail view. */
+export function taskDetailUrl(id: string): string {
+  return detailUrl(TASK_PARAM, id);
+}
+
+/** Link to a contributor's profile. */
+export function contributorUrl(login: string): string {
+  return detailUrl(CONTRIBUTOR_PARAM, login);
+}
+
+/**
+ * Tracks a view that is open while query parameter `name` is set, so it can be
+ * deep-linked. Opening adds a history entry, so the browser's back button
+ * closes the view.
+ */
+function useDetailParam(name: string): [string | null, (value: string) => void, () => void] {
+  const [value, setValue] = useState(() => readParam(name));
+
+  useEffect(() => {
+    function handlePopState() {
+      setValue(readParam(name));
+    }
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [name]);
+
+  function open(next: string) {
+    window.history.pushState({ detailParam: name }, '', detailUrl(name, next));
+    setValue(next);
+  }
+
+  function close() {
+    // Going back keeps history tidy when we opened the view ourselves.
+    if (window.history.state?.detailParam === name) {
+      window.history.back();
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.delete(name);
+    window.history.replaceState(window.history.state, '', url);
+    setValue(null);
+  }
+
+  return [value, open, close];
+}
+
+/** The task whose detail view is open (`?task=`). */
+export function useSelectedTask() {
+  return useDetailParam(TASK_PARAM);
+}
+
+/** The contributor whose profile is open (`?contributor=`). */
+export function useSelectedContributor() {
+  return useDetailParam(CONTRIBUTOR_PARAM);
+}
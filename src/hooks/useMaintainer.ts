@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Whether the signed-in contributor is a maintainer. Asks the same
+ * `is_maintainer()` function the RLS policies use; false while signed out.
+ */
+export function useMaintainer(login: string | null): boolean {
+  const [maintainer, setMaintainer] = useState(false);
+
+  useEffect(() => {
+    if (!login) {
+      setMaintainer(false);
+      return;
+    }
+    let cancelled = false;
+
+    supabase.rpc('is_maintainer').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error checking maintainer role:', error);
+      }
+      setMaintainer(data === true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [login]);
+
+  return maintainer;
+}
@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { parseNewcomerProfile, type NewcomerProfile } from '../../supabase/functions/_shared/recommendations.ts';
+
+const STORAGE_KEY = 'torctoberfest:newcomer-profile';
+
+function readProfile(): NewcomerProfile | null {
+  try {
+    return parseNewcomerProfile(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    // Storage can be unavailable, e.g. in private windows with cookies blocked.
+    return null;
+  }
+}
+
+/**
+ * The onboarding quiz answers, kept in this browser's local storage. Saving
+ * null forgets them.
+ */
+export function useNewcomerProfile(): [NewcomerProfile | null, (profile: NewcomerProfile | null) => void] {
+  const [profile, setProfile] = useState(readProfile);
+
+  function saveProfile(next: NewcomerProfile | null) {
+    setProfile(next);
+    try {
+      if (next) {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } else {
+        window.localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving newcomer profile:', error);
+    }
+  }
+
+  return [profile, saveProfile];
+}
@@ -0,0 +1,13 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToTaskChanges, type TaskChangeListener } from '../lib/taskChanges';
+
+/**
+ * Calls `listener` for every realtime change to `tasks`. The latest listener is
+ * always used, so it may read current state without resubscribing.
+ */
+export function useTaskChanges(listener: TaskChangeListener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribeToTaskChanges((payload) => listenerRef.current(payload)), []);
+}
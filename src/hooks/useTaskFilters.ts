@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import {
+  TASK_FILTER_PARAMS,
+  parseTaskFilters,
+  serializeTaskFilters,
+  type TaskFilters,
+} from '../../supabase/functions/_shared/taskFilters.ts';
+
+function readFilters(): TaskFilters {
+  return parseTaskFilters(new URLSearchParams(window.location.search));
+}
+
+/**
+ * Keeps the task board filters in the page's query string so a view can be
+ * shared as a link. Updates replace the current history entry instead of
+ * adding one per keystroke; other query parameters are left alone.
+ */
+export function useTaskFilters(): [TaskFilters, (changes: Partial<TaskFilters>) => void] {
+  const [filters, setFilters] = useState(readFilters);
+
+  useEffect(() => {
+    function handlePopState() {
+      setFilters(readFilters());
+    }
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  function updateFilters(changes: Partial<TaskFilters>) {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+
+    const url = new URL(window.location.href);
+    for (const name of TASK_FILTER_PARAMS) {
+      url.searchParams.delete(name);
+    }
+    for (const [name, value] of serializeTaskFilters(next)) {
+      url.searchParams.append(name, value);
+    }
+    window.history.replaceState(window.history.state, '', url);
+  }
+
+  return [filters, updateFilters];
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { MAX_WATCHED_TASKS, parseWatchlist } from '../../supabase/functions/_shared/watchlist.ts';
+
+const STORAGE_KEY = 'torctoberfest:watchlist';
+
+function readLocal(): string[] {
+  try {
+    return parseWatchlist(window.localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal(ids: string[]) {
+  try {
+    if (ids.length > 0) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving watchlist:', error);
+  }
+}
+
+/**
+ * Task ids the viewer watches, and a toggle. Signed-in users keep them in
+ * `task_watches`; anonymous visitors in local storage, which moves into the
+ * table when they sign in.
+ * @param userId - Supabase user id, or null when signed out
+ */
+export function useWatchlist(userId: string | null): [string[], (taskId: string) => void] {
+  const [ids, setIds] = useState<string[]>(readLocal);
+
+  useEffect(() => {
+    if (!userId) {
+      setIds(readLocal());
+      return;
+    }
+    let cancelled = false;
+
+    async function loadWatches() {
+      const local = readLocal();
+      if (local.length > 0) {
+        const { error } = await supabase
+          .from('task_watches')
+          .upsert(local.map((task_id) => ({ task_id })), { onConflict: 'user_id,task_id', ignoreDuplicates: true });
+
+        if (error) {
+          console.error('Error moving watchlist:', error);
+        } else {
+          writeLocal([]);
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('task_watches')
+        .select('task_id')
+        .order('created_at', { ascending: false })
+        .limit(MAX_WATCHED_TASKS);
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching watchlist:', error);
+        return;
+      }
+      setIds((data || []).map((row) => row.task_id));
+    }
+
+    loadWatches();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  function toggle(taskId: string) {
+    const watching = ids.includes(taskId);
+    const next = watching ? ids.filter((id) => id !== taskId) : [taskId, ...ids].slice(0, MAX_WATCHED_TASKS);
+    setIds(next);
+
+    if (!userId) {
+      writeLocal(next);
+      return;
+    }
+
+    const request = watching
+      ? supabase.from('task_watches').delete().eq('task_id', taskId)
+      : supabase.from('task_watches').insert({ task_id: taskId });
+
+    request.then(({ error }) => {
+      if (error) {
+        console.error('Error updating watchlist:', error);
+        setIds(ids);
+      }
+    });
+  }
+
+  return [ids, toggle];
+}
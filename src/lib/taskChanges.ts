@@ -0,0 +1,42 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import type { Task } from '../types/task';
+
+export type TaskChangeListener = (payload: RealtimePostgresChangesPayload<Task>) => void;
+
+const listeners = new Set<TaskChangeListener>();
+let channel: RealtimeChannel | null = null;
+
+/**
+ * Listens to every insert, update and delete on `tasks`. All listeners share
+ * one Realtime channel, opened with the first listener and closed with the last.
+ * @returns A function that removes the listener
+ */
+export function subscribeToTaskChanges(listener: TaskChangeListener): () => void {
+  listeners.add(listener);
+
+  if (!channel) {
+    channel = supabase
+      .channel('tasks-changes')
+      .on<Task>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tasks',
+        },
+        (payload) => {
+          listeners.forEach((notify) => notify(payload));
+        }
+      )
+      .subscribe();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import type { TaskCategory, TaskDifficulty, TaskStatus } from '../types/task';
+
+export const difficultyColors: Record<TaskDifficulty, string> = {
+  'good-first-issue': 'bg-green-100 text-green-800 border-green-200',
+  'beginner': 'bg-blue-100 text-blue-800 border-blue-200',
+  'intermediate': 'bg-orange-100 text-orange-800 border-orange-200',
+  'advanced': 'bg-red-100 text-red-800 border-red-200',
+};
+
+export const categoryColors: Record<TaskCategory, string> = {
+  'utility': 'bg-slate-100 text-slate-700',
+  'documentation': 'bg-violet-100 text-violet-700',
+  'testing': 'bg-emerald-100 text-emerald-700',
+  'infrastructure': 'bg-amber-100 text-amber-700',
+  'feature': 'bg-cyan-100 text-cyan-700',
+};
+
+export const statusColors: Record<TaskStatus, string> = {
+  'open': 'bg-green-50 text-green-700 ring-green-600/20',
+  'in-progress': 'bg-yellow-50 text-yellow-800 ring-yellow-600/20',
+  'in-review': 'bg-purple-50 text-purple-700 ring-purple-600/20',
+  'completed': 'bg-blue-50 text-blue-700 ring-blue-600/20',
+  'archived': 'bg-gray-50 text-gray-600 ring-gray-500/20',
+};
@@ -0,0 +1,11 @@
+/** A row of the `contributors` view: one GitHub login that has claimed tasks. */
+export interface Contributor {
+  login: string;
+  /** Difficulty-weighted score of completed tasks, see `difficulty_points`. */
+  points: number;
+  completed_count: number;
+  active_count: number;
+  last_active_at: string;
+  /** Leaderboard position; tied contributors share a rank. */
+  rank: number;
+}
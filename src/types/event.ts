@@ -0,0 +1,7 @@
+import type { EventWindow } from '../../supabase/functions/_shared/hacktoberfest.ts';
+
+/** A row of the `events` table, e.g. Hacktoberfest 2025. */
+export interface HacktoberfestEvent extends EventWindow {
+  slug: string;
+  name: string;
+}
@@ -0,0 +1,8 @@
+export interface Repository {
+  id: string;
+  full_name: string;
+  display_name: string;
+  description?: string;
+  active: boolean;
+  created_at: string;
+}
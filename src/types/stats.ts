@@ -0,0 +1,12 @@
+import type { TaskDifficulty } from './task';
+
+/** Result of the `task_stats()` database function. */
+export interface TaskStats {
+  open_by_difficulty: Partial<Record<TaskDifficulty, number>>;
+  completed_this_week: number;
+  active_contributors: number;
+  /** Median hours from claim to completion over the last 90 days. */
+  median_hours_to_complete: number | null;
+  /** Completions per day for the last 14 days, oldest first. */
+  completed_per_day: number[];
+}
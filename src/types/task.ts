@@ -1,18 +1,51 @@
-export type TaskDifficulty = 'good-first-issue' | 'beginner' | 'intermediate' | 'advanced';
-export type TaskCategory = 'utility' | 'documentation' | 'testing' | 'infrastructure' | 'feature';
-export type TaskStatus = 'open' | 'in-progress' | 'completed';
+import type { TaskCategory, TaskDifficulty } from '../../supabase/functions/_shared/labelMapping.ts';
+import type { TaskStatus } from '../../supabase/functions/_shared/taskStatus.ts';
+
+export type { ClaimExpiryRule } from '../../supabase/functions/_shared/claimExpiry.ts';
+export type { LabelMapping } from '../../supabase/functions/_shared/labelMapping.ts';
+export type { TaskEvent } from '../../supabase/functions/_shared/taskEvents.ts';
+export type { TaskCategory, TaskDifficulty, TaskStatus };
 
 export interface Task {
   id: string;
   title: string;
-  description: string;
+  /** Full description. Left out of task lists; see `description_preview`. */
+  description?: string;
+  description_preview?: string;
   difficulty: TaskDifficulty;
   category: TaskCategory;
   status: TaskStatus;
   github_issue_url?: string;
-  estimated_time: string;
+  repository: string;
+  estimated_time?: string;
+  estimated_minutes_min?: number;
+  estimated_minutes_max?: number;
   labels: string[];
   claimed_by?: string;
+  claimed_at?: string;
+  completed_at?: string;
+  /** Waiting on a task that is not done yet, see `task_dependencies`. */
+  blocked?: boolean;
   created_at: string;
   updated_at: string;
 }
+
+/**
+ * A task related to the one shown. `blocked_by` and `subtask` links are parsed
+ * from this task's issue; `blocks` and `epic` from the other task's issue.
+ */
+export interface TaskLink {
+  kind: 'blocked_by' | 'subtask' | 'blocks' | 'epic';
+  issue_url: string;
+  /** The linked task, or null for an issue that is not on the board. */
+  task: Pick<Task, 'id' | 'title' | 'status'> | null;
+}
+
+export interface TaskPullRequest {
+  number: number;
+  html_url: string;
+  author: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  updated_at: string;
+}
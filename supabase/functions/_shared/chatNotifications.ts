@@ -0,0 +1,291 @@
+/**
+ * Chat notifications.
+ *
+ * Maintainers register Discord and Slack incoming webhooks in `chat_webhooks`.
+ * When the GitHub webhook creates a task, or a task gets claimed or completed,
+ * every active channel whose filters match receives a message in its own
+ * payload format. Deliveries are retried with exponential backoff; a channel
+ * that keeps failing never fails the GitHub delivery.
+ */
+
+import { TASK_CATEGORY_LABELS, TASK_DIFFICULTY_LABELS, type TaskCategory, type TaskDifficulty } from './labelMapping.ts';
+import { taskUrl } from './taskFeed.ts';
+import type { TaskState } from './taskStatus.ts';
+
+export const CHAT_EVENTS = ['created', 'claimed', 'completed'] as const;
+
+export type ChatEvent = (typeof CHAT_EVENTS)[number];
+
+export const CHAT_FORMATS = ['discord', 'slack'] as const;
+
+export type ChatFormat = (typeof CHAT_FORMATS)[number];
+
+/** A row of `chat_webhooks`. Empty filter lists match every task. */
+export interface ChatWebhook {
+  id: string;
+  name: string;
+  format: ChatFormat;
+  url: string;
+  events: ChatEvent[];
+  difficulties: TaskDifficulty[];
+  categories: TaskCategory[];
+  repositories: string[];
+}
+
+/** Task fields a message shows. */
+export interface NotifiableTask {
+  id: string;
+  title: string;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  repository: string;
+  github_issue_url: string | null;
+  claimed_by: string | null;
+}
+
+export class ChatWebhookError extends Error {
+  constructor(message: string, public readonly status: number | null) {
+    super(message);
+    this.name = 'ChatWebhookError';
+  }
+}
+
+/**
+ * The chat event a task change amounts to, if any. A new task is `created`
+ * even when it arrives already claimed.
+ * @param before - State before the change, or null for a new task
+ */
+export function chatEventFor(before: TaskState | null, after: TaskState): ChatEvent | null {
+  if (!before) {
+    return 'created';
+  }
+  if (after.status === 'completed' && before.status !== 'completed') {
+    return 'completed';
+  }
+  if (after.claimed_by && after.claimed_by !== before.claimed_by) {
+    return 'claimed';
+  }
+  return null;
+}
+
+/** Whether a channel wants to hear about this event for this task. */
+export function matchesChannel(webhook: ChatWebhook, event: ChatEvent, task: NotifiableTask): boolean {
+  return (
+    webhook.events.includes(event) &&
+    (webhook.difficulties.length === 0 || webhook.difficulties.includes(task.difficulty)) &&
+    (webhook.categories.length === 0 || webhook.categories.includes(task.category)) &&
+    (webhook.repositories.length === 0 ||
+      webhook.repositories.some(repository => repository.toLowerCase() === task.repository.toLowerCase()))
+  );
+}
+
+const EVENT_COLORS: Record<ChatEvent, number> = {
+  'created': 0x2563eb,
+  'claimed': 0xf59e0b,
+  'completed': 0x16a34a,
+};
+
+function headline(event: ChatEvent, task: NotifiableTask): string {
+  switch (event) {
+    case 'created':
+      return 'New task';
+    case 'claimed':
+      return `Claimed by ${task.claimed_by}`;
+    case 'completed':
+      return task.claimed_by ? `Completed by ${task.claimed_by}` : 'Completed';
+  }
+}
+
+function details(task: NotifiableTask): string[] {
+  return [
+    TASK_DIFFICULTY_LABELS[task.difficulty] ?? task.difficulty,
+    TASK_CATEGORY_LABELS[task.category] ?? task.category,
+    task.repository,
+  ];
+}
+
+/** The board's detail view when the site is known, otherwise the GitHub issue. */
+function link(task: NotifiableTask, siteUrl: string | undefined): string | undefined {
+  return siteUrl ? taskUrl(siteUrl, task.id) : task.github_issue_url ?? undefined;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/** Escapes the characters Slack's mrkdwn treats as markup. */
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Builds a Discord webhook message with one embed.
+ * @param siteUrl - Address of the board, linked from the message
+ */
+export function discordMessage(event: ChatEvent, task: NotifiableTask, siteUrl?: string) {
+  const [difficulty, category, repository] = details(task);
+
+  return {
+    username: 'Torctoberfest',
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        author: { name: headline(event, task) },
+        title: truncate(task.title, 256),
+        url: link(task, siteUrl),
+        color: EVENT_COLORS[event],
+        fields: [
+          { name: 'Difficulty', value: difficulty, inline: true },
+          { name: 'Category', value: category, inline: true },
+          { name: 'Repository', value: repository, inline: true },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Builds a Slack incoming webhook message. `text` is the notification
+ * fallback; the blocks are what the channel shows.
+ */
+export function slackMessage(event: ChatEvent, task: NotifiableTask, siteUrl?: string) {
+  const url = link(task, siteUrl);
+  const title = escapeSlack(task.title);
+  const summary = `${escapeSlack(headline(event, task))}: ${url ? `<${url}|${title}>` : title}`;
+
+  return {
+    text: `${headline(event, task)}: ${task.title}`,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: summary } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: escapeSlack(details(task).join(' · ')) }] },
+    ],
+  };
+}
+
+export function chatMessage(format: ChatFormat, event: ChatEvent, task: NotifiableTask, siteUrl?: string) {
+  return format === 'slack' ? slackMessage(event, task, siteUrl) : discordMessage(event, task, siteUrl);
+}
+
+export interface DeliveryOptions {
+  fetch?: typeof fetch;
+  /** Attempts including the first one. */
+  attempts?: number;
+  /** Delay before the first retry; doubles for each retry after it. */
+  baseDelayMs?: number;
+  /** Longest wait between attempts, including one asked for with `Retry-After`. */
+  maxDelayMs?: number;
+  /** How long one attempt may take. */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_DELIVERY_OPTIONS = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+  timeoutMs: 5000,
+};
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads a `Retry-After` header given in seconds.
+ * @returns Milliseconds, or null when absent or not a number of seconds
+ */
+export function retryAfterMs(header: string | null): number | null {
+  if (!header || !/^\d+(\.\d+)?$/.test(header.trim())) {
+    return null;
+  }
+  return Number(header) * 1000;
+}
+
+/**
+ * Posts a message to a chat webhook. Rate limits (429), server errors and
+ * network failures are retried with exponential backoff, honouring
+ * `Retry-After`; other responses are final.
+ * @returns Number of attempts it took
+ * @throws ChatWebhookError once the message cannot be delivered
+ */
+export async function deliverChatMessage(url: string, message: unknown, options: DeliveryOptions = {}): Promise<number> {
+  const {
+    fetch: fetchImpl = fetch,
+    attempts = DEFAULT_DELIVERY_OPTIONS.attempts,
+    baseDelayMs = DEFAULT_DELIVERY_OPTIONS.baseDelayMs,
+    maxDelayMs = DEFAULT_DELIVERY_OPTIONS.maxDelayMs,
+    timeoutMs = DEFAULT_DELIVERY_OPTIONS.timeoutMs,
+  } = options;
+
+  let lastError = new ChatWebhookError('No attempts made', null);
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    let delay = baseDelayMs * 2 ** (attempt - 1);
+    let response: Response | null = null;
+
+    try {
+      response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      lastError = new ChatWebhookError(`Chat webhook unreachable: ${(error as Error).message}`, null);
+    }
+
+    // Release the connection; the body is not needed.
+    response?.body?.cancel().catch(() => undefined);
+
+    if (response?.ok) {
+      return attempt;
+    }
+    if (response) {
+      lastError = new ChatWebhookError(`Chat webhook responded ${response.status}`, response.status);
+      if (response.status !== 429 && response.status < 500) {
+        throw lastError;
+      }
+      delay = retryAfterMs(response.headers.get('Retry-After')) ?? delay;
+    }
+
+    if (attempt < attempts) {
+      await wait(Math.min(delay, maxDelayMs));
+    }
+  }
+
+  throw lastError;
+}
+
+export interface ChatDelivery {
+  webhook: string;
+  ok: boolean;
+  attempts?: number;
+  error?: string;
+}
+
+/**
+ * Sends an event to every channel whose filters match, in parallel.
+ * @returns One result per matching channel; failures are reported, not thrown
+ */
+export async function notifyChannels(
+  webhooks: ChatWebhook[],
+  event: ChatEvent,
+  task: NotifiableTask,
+  options: DeliveryOptions & { siteUrl?: string } = {}
+): Promise<ChatDelivery[]> {
+  const channels = webhooks.filter(webhook => matchesChannel(webhook, event, task));
+
+  return Promise.all(
+    channels.map(async (webhook): Promise<ChatDelivery> => {
+      try {
+        const attempts = await deliverChatMessage(
+          webhook.url,
+          chatMessage(webhook.format, event, task, options.siteUrl),
+          options
+        );
+        return { webhook: webhook.name, ok: true, attempts };
+      } catch (error) {
+        return { webhook: webhook.name, ok: false, error: (error as Error).message };
+      }
+    })
+  );
+}
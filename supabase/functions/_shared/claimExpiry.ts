@@ -0,0 +1,177 @@
+/**
+ * Claim expiry.
+ *
+ * A claim lasts a number of days that depends on the task difficulty
+ * (`claim_expiry_rules` table). The claimant is warned with an issue comment
+ * shortly before the deadline, and the claim is released once it passes.
+ */
+
+import { parseIssueUrl, type GitHubClient } from './githubClient.ts';
+import type { TaskDifficulty } from './labelMapping.ts';
+import { transitionTask, type TaskState } from './taskStatus.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A row of the `claim_expiry_rules` table. */
+export interface ClaimExpiryRule {
+  difficulty: TaskDifficulty;
+  expires_after_days: number;
+  warn_before_days: number;
+}
+
+export interface ClaimedTask {
+  id: string;
+  title: string;
+  difficulty: TaskDifficulty;
+  github_issue_url?: string | null;
+  claimed_by: string;
+  claimed_at: string;
+  claim_warned_at?: string | null;
+}
+
+export type ClaimAction = 'warn' | 'release';
+
+/** Storage used by the release job. The release-stale-claims function backs it with Supabase. */
+export interface ClaimStore {
+  /** Lists in-progress tasks that have a claimant and a `claimed_at`. */
+  listClaimedTasks(): Promise<ClaimedTask[]>;
+  listExpiryRules(): Promise<ClaimExpiryRule[]>;
+  markWarned(id: string, at: Date): Promise<void>;
+  /**
+   * Applies `state` if the task is still claimed by `claimedBy`.
+   * Resolves to `false` when the claim changed in the meantime.
+   */
+  releaseClaim(id: string, claimedBy: string, state: TaskState): Promise<boolean>;
+}
+
+/** A task the release job could not finish. */
+export interface ClaimFailure {
+  id: string;
+  action: ClaimAction;
+  error: string;
+}
+
+export interface ReleaseSummary {
+  warned: number;
+  /** Claims released in the database, including ones whose GitHub follow-up failed. */
+  released: number;
+  failed: ClaimFailure[];
+}
+
+/**
+ * Computes when a claim expires.
+ * @returns The deadline, or null when there is no rule for the task difficulty
+ */
+export function claimDeadline(
+  task: Pick<ClaimedTask, 'difficulty' | 'claimed_at'>,
+  rules: ClaimExpiryRule[]
+): Date | null {
+  const rule = rules.find(r => r.difficulty === task.difficulty);
+  if (!rule) {
+    return null;
+  }
+
+  return new Date(new Date(task.claimed_at).getTime() + rule.expires_after_days * DAY_MS);
+}
+
+/**
+ * Whole days left before a claim expires, rounded up. Zero or less means expired.
+ */
+export function daysUntil(deadline: Date, now: Date): number {
+  return Math.ceil((deadline.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Decides whether a claim should be warned about, released, or left alone.
+ */
+export function planClaimAction(task: ClaimedTask, rules: ClaimExpiryRule[], now: Date): ClaimAction | null {
+  const rule = rules.find(r => r.difficulty === task.difficulty);
+  const deadline = claimDeadline(task, rules);
+  if (!rule || !deadline) {
+    return null;
+  }
+
+  if (now >= deadline) {
+    return 'release';
+  }
+
+  const warnFrom = new Date(deadline.getTime() - rule.warn_before_days * DAY_MS);
+  if (now >= warnFrom && !task.claim_warned_at) {
+    return 'warn';
+  }
+
+  return null;
+}
+
+export function warningComment(task: ClaimedTask, issueNumber: number, deadline: Date, now: Date): string {
+  const days = daysUntil(deadline, now);
+  return [
+    `Hi @${task.claimed_by}! Your claim on this task expires in ${days} day${days === 1 ? '' : 's'}.`,
+    '',
+    `If you are still working on it, open a pull request (a draft is fine) that says \`Fixes #${issueNumber}\`, ` +
+      'or comment here to let the maintainers know. Otherwise the task will be released so someone else can pick it up.',
+  ].join('\n');
+}
+
+export function releaseComment(task: ClaimedTask): string {
+  return [
+    `The claim by @${task.claimed_by} has expired, so this task is open again.`,
+    '',
+    'Thanks for your interest! Feel free to claim it again if you want to continue.',
+  ].join('\n');
+}
+
+/**
+ * Warns claimants whose claims are about to expire and releases expired claims.
+ * Tasks without a GitHub issue are released without comments.
+ *
+ * A failure on one task is logged and reported in the summary, and the job
+ * moves on to the next task. A warning that could not be posted is not marked
+ * as sent, so the next run tries again.
+ */
+export async function releaseStaleClaims(
+  store: ClaimStore,
+  github: GitHubClient,
+  now: Date = new Date()
+): Promise<ReleaseSummary> {
+  const [tasks, rules] = await Promise.all([store.listClaimedTasks(), store.listExpiryRules()]);
+  const summary: ReleaseSummary = { warned: 0, released: 0, failed: [] };
+
+  for (const task of tasks) {
+    const action = planClaimAction(task, rules, now);
+    const issue = parseIssueUrl(task.github_issue_url);
+    if (!action) {
+      continue;
+    }
+
+    try {
+      if (action === 'warn') {
+        if (issue) {
+          const comment = warningComment(task, issue.number, claimDeadline(task, rules)!, now);
+          await github.createIssueComment(issue.repository, issue.number, comment);
+        }
+        await store.markWarned(task.id, now);
+        summary.warned++;
+      } else {
+        const next = transitionTask({ status: 'in-progress', claimed_by: task.claimed_by }, 'unassigned', {
+          assignee: null,
+        });
+        if (!next || !(await store.releaseClaim(task.id, task.claimed_by, next))) {
+          continue;
+        }
+        summary.released++;
+
+        if (issue) {
+          await github.removeAssignees(issue.repository, issue.number, [task.claimed_by]);
+          await github.createIssueComment(issue.repository, issue.number, releaseComment(task));
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Could not ${action} the claim on task ${task.id}:`, message);
+      summary.failed.push({ id: task.id, action, error: message });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,120 @@
+/**
+ * Estimated time parsing.
+ *
+ * Issue bodies describe effort as free text ("2-3 hours", "30 min", "1 day").
+ * We keep that text for display and store a minute range for filtering and sorting.
+ */
+
+export interface EstimatedRange {
+  min: number;
+  max: number;
+}
+
+/** A working day counts as 8 hours, a week as 5 working days. */
+const HOUR = 60;
+const DAY = 8 * HOUR;
+const WEEK = 5 * DAY;
+
+const UNIT_MINUTES: Array<{ pattern: RegExp; minutes: number }> = [
+  { pattern: /^(?:m|mins?|minutes?)$/, minutes: 1 },
+  { pattern: /^(?:h|hrs?|hours?)$/, minutes: HOUR },
+  { pattern: /^(?:d|days?)$/, minutes: DAY },
+  { pattern: /^(?:w|wks?|weeks?)$/, minutes: WEEK },
+];
+
+const RANGE_PATTERN =
+  /\b(\d+(?:\.\d+)?|an?)\s*(?:(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)\b)?\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)\b/i;
+const SINGLE_PATTERN =
+  /\b(\d+(?:\.\d+)?|an?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|wks?|weeks?)\b/i;
+
+function unitMinutes(unit: string): number | null {
+  const normalized = unit.toLowerCase();
+  const match = UNIT_MINUTES.find((u) => u.pattern.test(normalized));
+  return match ? match.minutes : null;
+}
+
+function amount(value: string): number {
+  return /^an?$/i.test(value) ? 1 : Number(value);
+}
+
+/**
+ * Extracts the raw "Estimated Time" text from an issue body.
+ * Matches both `Estimated Time: 2 hours` and issue form sections (`### Estimated Time`).
+ */
+export function extractEstimatedTime(body: string): string | null {
+  const match = body.match(/Estimated Time\**[:\s]+([^\n]+)/i);
+  return match ? match[1].replace(/\*+/g, '').trim() || null : null;
+}
+
+/**
+ * Parses a duration or duration range into minutes.
+ * @example parseEstimatedTime('2-3 hours') // { min: 120, max: 180 }
+ * @example parseEstimatedTime('30 min') // { min: 30, max: 30 }
+ * @example parseEstimatedTime('1h - 2 days') // { min: 60, max: 960 }
+ * @returns The range in minutes, or null when the text has no recognizable duration
+ */
+export function parseEstimatedTime(text: string | null | undefined): EstimatedRange | null {
+  if (!text) {
+    return null;
+  }
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const maxUnit = unitMinutes(range[4]);
+    const minUnit = range[2] ? unitMinutes(range[2]) : maxUnit;
+    if (minUnit && maxUnit) {
+      const min = Math.round(amount(range[1]) * minUnit);
+      const max = Math.round(amount(range[3]) * maxUnit);
+      return min <= max ? { min, max } : { min: max, max: min };
+    }
+  }
+
+  const single = text.match(SINGLE_PATTERN);
+  if (single) {
+    const unit = unitMinutes(single[2]);
+    if (unit) {
+      const minutes = Math.round(amount(single[1]) * unit);
+      return { min: minutes, max: minutes };
+    }
+  }
+
+  return null;
+}
+
+function toUnit(minutes: number): { value: number; unit: 'min' | 'hour' | 'day' } {
+  if (minutes >= DAY && minutes % DAY === 0) return { value: minutes / DAY, unit: 'day' };
+  if (minutes >= HOUR) return { value: Math.round((minutes / HOUR) * 10) / 10, unit: 'hour' };
+  return { value: minutes, unit: 'min' };
+}
+
+function withUnit({ value, unit }: ReturnType<typeof toUnit>): string {
+  return unit === 'min' ? `${value} min` : `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * Formats a minute range for display: "30 min", "2-3 hours", "1 day".
+ */
+export function formatEstimatedRange(range: EstimatedRange): string {
+  const min = toUnit(range.min);
+  const max = toUnit(range.max);
+
+  if (range.min === range.max) {
+    return withUnit(max);
+  }
+
+  return min.unit === max.unit
+    ? `${min.value}-${withUnit(max)}`
+    : `${withUnit(min)} - ${withUnit(max)}`;
+}
+
+export type TimeBudget = 'under-1-hour' | 'afternoon' | 'weekend';
+
+/**
+ * Time budgets offered as filters. A task fits a budget when its upper
+ * estimate does not exceed `maxMinutes`.
+ */
+export const TIME_BUDGETS: Array<{ value: TimeBudget; label: string; maxMinutes: number }> = [
+  { value: 'under-1-hour', label: 'Under 1 hour', maxMinutes: HOUR },
+  { value: 'afternoon', label: 'An afternoon', maxMinutes: 4 * HOUR },
+  { value: 'weekend', label: 'A weekend', maxMinutes: 2 * DAY },
+];
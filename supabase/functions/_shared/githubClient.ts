@@ -0,0 +1,133 @@
+/**
+ * Minimal GitHub REST API client.
+ *
+ * Functions receive a `GitHubClient` instead of calling `fetch` directly, so
+ * tests can point them at a local fake API server.
+ */
+
+import type { GitHubIssueData } from './issueTask.ts';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+export class GitHubApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export interface NewIssue {
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+export interface GitHubClient {
+  /** Lists every issue (open and closed, pull requests excluded) of `owner/repo`. */
+  listIssues(repository: string): Promise<GitHubIssueData[]>;
+  /** Opens an issue. */
+  createIssue(repository: string, issue: NewIssue): Promise<{ number: number; html_url: string }>;
+  /** Posts a comment on an issue. */
+  createIssueComment(repository: string, issueNumber: number, body: string): Promise<void>;
+  /** Removes assignees from an issue. */
+  removeAssignees(repository: string, issueNumber: number, logins: string[]): Promise<void>;
+}
+
+export interface GitHubClientOptions {
+  token?: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Reads the `rel="next"` URL from a GitHub `Link` header.
+ */
+export function nextPageUrl(linkHeader: string | null): string | null {
+  if (!linkHeader) {
+    return null;
+  }
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Splits a GitHub issue URL into its repository and number.
+ * @example parseIssueUrl('https://github.com/owner/repo/issues/12') // { repository: 'owner/repo', number: 12 }
+ */
+export function parseIssueUrl(url: string | null | undefined): { repository: string; number: number } | null {
+  const match = url?.match(/^https:\/\/github\.com\/([^/]+\/[^/]+)\/issues\/(\d+)$/);
+  return match ? { repository: match[1], number: Number(match[2]) } : null;
+}
+
+export function createGitHubClient({
+  token,
+  baseUrl = GITHUB_API_URL,
+  fetch: fetchImpl = fetch,
+}: GitHubClientOptions = {}): GitHubClient {
+  const headers: Record<string, string> = {
+    'Accept': 'application/vnd.github+json',
+    'X-GitHub-Api-Version': '2022-11-28',
+    'User-Agent': 'torc-toolbelt',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  async function request(url: string, init: { method?: string; body?: unknown } = {}): Promise<Response> {
+    const response = await fetchImpl(url, {
+      method: init.method || 'GET',
+      headers: init.body === undefined ? headers : { ...headers, 'Content-Type': 'application/json' },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+    if (!response.ok) {
+      throw new GitHubApiError(`GitHub API ${response.status} for ${url}`, response.status);
+    }
+    return response;
+  }
+
+  return {
+    async listIssues(repository) {
+      const issues: GitHubIssueData[] = [];
+      let url: string | null = `${baseUrl}/repos/${repository}/issues?state=all&per_page=100`;
+
+      while (url) {
+        const response = await request(url);
+        const page: GitHubIssueData[] = await response.json();
+        issues.push(...page.filter(issue => !issue.pull_request));
+        url = nextPageUrl(response.headers.get('Link'));
+      }
+
+      return issues;
+    },
+
+    async createIssue(repository, issue) {
+      const response = await request(`${baseUrl}/repos/${repository}/issues`, {
+        method: 'POST',
+        body: issue,
+      });
+      const { number, html_url } = await response.json();
+      return { number, html_url };
+    },
+
+    async createIssueComment(repository, issueNumber, body) {
+      await request(`${baseUrl}/repos/${repository}/issues/${issueNumber}/comments`, {
+        method: 'POST',
+        body: { body },
+      });
+    },
+
+    async removeAssignees(repository, issueNumber, logins) {
+      await request(`${baseUrl}/repos/${repository}/issues/${issueNumber}/assignees`, {
+        method: 'DELETE',
+        body: { assignees: logins },
+      });
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Hacktoberfest progress.
+ *
+ * The webhook records every pull request that closes a task. A pull request
+ * counts toward an event when it was opened inside the event window and has
+ * been merged. One pull request can close several tasks; it still counts once.
+ */
+
+export interface EventWindow {
+  starts_at: string;
+  ends_at: string;
+  /** Merged pull requests needed to complete the event. */
+  pr_goal: number;
+}
+
+/** A `task_pull_requests` row with the task it closes. */
+export interface PullRequestRecord {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  opened_at: string | null;
+  merged_at: string | null;
+  /** When the webhook first saw the pull request; stands in for `opened_at` on older rows. */
+  created_at: string;
+  task: { id: string; title: string } | null;
+}
+
+export interface EventPullRequest {
+  number: number;
+  html_url: string;
+  /** `owner/repo` */
+  repository: string;
+  opened_at: string;
+  merged_at: string | null;
+  tasks: Array<{ id: string; title: string }>;
+}
+
+export interface EventProgress {
+  /** Merged pull requests opened during the event, most recently merged first. */
+  qualifying: EventPullRequest[];
+  /** Open pull requests opened during the event, waiting for review. */
+  pending: EventPullRequest[];
+  goal: number;
+  remaining: number;
+  complete: boolean;
+}
+
+const LOGIN_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+
+/**
+ * Checks that a value is a valid GitHub username, so it is safe to use in a
+ * query or URL.
+ */
+export function isGitHubLogin(value: string): boolean {
+  return LOGIN_PATTERN.test(value);
+}
+
+function repositoryOf(htmlUrl: string): string {
+  const match = htmlUrl.match(/^https:\/\/github\.com\/([^/]+\/[^/]+)\/pull\/\d+/);
+  return match ? match[1] : '';
+}
+
+function inWindow(timestamp: string, event: EventWindow): boolean {
+  const time = Date.parse(timestamp);
+  return time >= Date.parse(event.starts_at) && time < Date.parse(event.ends_at);
+}
+
+/**
+ * Merges rows for the same pull request, collecting the tasks it closes.
+ */
+function groupByPullRequest(records: PullRequestRecord[]): EventPullRequest[] {
+  const pullRequests = new Map<string, EventPullRequest>();
+
+  for (const record of records) {
+    let pullRequest = pullRequests.get(record.html_url);
+    if (!pullRequest) {
+      pullRequest = {
+        number: record.number,
+        html_url: record.html_url,
+        repository: repositoryOf(record.html_url),
+        opened_at: record.opened_at ?? record.created_at,
+        merged_at: null,
+        tasks: [],
+      };
+      pullRequests.set(record.html_url, pullRequest);
+    }
+    if (record.merged && record.merged_at) {
+      pullRequest.merged_at = record.merged_at;
+    }
+    if (record.task && !pullRequest.tasks.some(task => task.id === record.task!.id)) {
+      pullRequest.tasks.push(record.task);
+    }
+  }
+
+  return [...pullRequests.values()];
+}
+
+/**
+ * Works out a contributor's progress toward an event goal from their pull
+ * requests. Closed pull requests that were not merged never count.
+ */
+export function eventProgress(records: PullRequestRecord[], event: EventWindow): EventProgress {
+  const merged = new Set(records.filter(record => record.merged).map(record => record.html_url));
+  const open = new Set(records.filter(record => record.state === 'open').map(record => record.html_url));
+  const inEvent = groupByPullRequest(records).filter(pullRequest => inWindow(pullRequest.opened_at, event));
+
+  const qualifying = inEvent
+    .filter(pullRequest => merged.has(pullRequest.html_url))
+    .sort((a, b) => (b.merged_at ?? b.opened_at).localeCompare(a.merged_at ?? a.opened_at));
+  const pending = inEvent
+    .filter(pullRequest => !merged.has(pullRequest.html_url) && open.has(pullRequest.html_url))
+    .sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+  const remaining = Math.max(0, event.pr_goal - qualifying.length);
+
+  return { qualifying, pending, goal: event.pr_goal, remaining, complete: remaining === 0 };
+}
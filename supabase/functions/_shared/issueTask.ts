@@ -0,0 +1,79 @@
+/**
+ * Mapping from GitHub issues to task rows.
+ * Used by the github-webhook function and the sync-issues backfill.
+ */
+
+import { extractEstimatedTime, parseEstimatedTime } from './estimatedTime.ts';
+import {
+  resolveTaskLabels,
+  type LabelKind,
+  type LabelMapping,
+  type TaskCategory,
+  type TaskDifficulty,
+} from './labelMapping.ts';
+
+/** The fields of a GitHub issue that tasks are built from. */
+export interface GitHubIssueData {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  labels: Array<{ name: string }>;
+  user: {
+    login: string;
+  };
+  state: string;
+  state_reason?: string | null;
+  assignee?: {
+    login: string;
+  } | null;
+  /** Present when the issues API returns a pull request. */
+  pull_request?: unknown;
+}
+
+/** Task columns derived from the issue content. Status and claim are set separately. */
+export interface IssueTaskFields {
+  title: string;
+  description: string;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  github_issue_url: string;
+  repository: string;
+  estimated_time: string | null;
+  estimated_minutes_min: number | null;
+  estimated_minutes_max: number | null;
+  labels: string[];
+}
+
+/**
+ * Builds the task columns for an issue.
+ * @param repository - `owner/repo` the issue belongs to
+ * @returns The task fields and the label kinds that fell back to a default
+ */
+export function issueToTask(
+  issue: GitHubIssueData,
+  mappings: LabelMapping[],
+  repository: string
+): { task: IssueTaskFields; fallbacks: LabelKind[] } {
+  const labels = issue.labels.map(l => l.name);
+  const { difficulty, category, fallbacks } = resolveTaskLabels(labels, mappings);
+
+  const estimatedTime = extractEstimatedTime(issue.body || '');
+  const estimatedRange = parseEstimatedTime(estimatedTime);
+
+  return {
+    task: {
+      title: issue.title,
+      description: issue.body || '',
+      difficulty,
+      category,
+      github_issue_url: issue.html_url,
+      repository,
+      estimated_time: estimatedTime,
+      estimated_minutes_min: estimatedRange?.min ?? null,
+      estimated_minutes_max: estimatedRange?.max ?? null,
+      labels,
+    },
+    fallbacks,
+  };
+}
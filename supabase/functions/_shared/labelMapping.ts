@@ -0,0 +1,140 @@
+/**
+ * Task difficulty and category taxonomy.
+ *
+ * The allowed values live here and are shared by the webhook and the frontend.
+ * Which GitHub labels map onto them is configured in the `label_mappings`
+ * table, so a repository can use "good first issue", "level:hard" or "docs"
+ * without code changes.
+ */
+
+export const TASK_DIFFICULTIES = ['good-first-issue', 'beginner', 'intermediate', 'advanced'] as const;
+export const TASK_CATEGORIES = ['utility', 'documentation', 'testing', 'infrastructure', 'feature'] as const;
+
+export type TaskDifficulty = (typeof TASK_DIFFICULTIES)[number];
+export type TaskCategory = (typeof TASK_CATEGORIES)[number];
+
+export const TASK_DIFFICULTY_LABELS: Record<TaskDifficulty, string> = {
+  'good-first-issue': 'Good First Issue',
+  'beginner': 'Beginner',
+  'intermediate': 'Intermediate',
+  'advanced': 'Advanced',
+};
+
+export const TASK_CATEGORY_LABELS: Record<TaskCategory, string> = {
+  'utility': 'Utility',
+  'documentation': 'Documentation',
+  'testing': 'Testing',
+  'infrastructure': 'Infrastructure',
+  'feature': 'Feature',
+};
+
+export type LabelKind = 'difficulty' | 'category';
+
+/** A row of the `label_mappings` table. */
+export interface LabelMapping {
+  kind: LabelKind;
+  value: string;
+  alias: string;
+  priority: number;
+  is_fallback: boolean;
+}
+
+export interface ResolvedLabels {
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  /** Kinds for which no label matched and a fallback was used. */
+  fallbacks: LabelKind[];
+}
+
+/**
+ * Used only when `label_mappings` has no fallback row for a kind.
+ */
+const LAST_RESORT: { difficulty: TaskDifficulty; category: TaskCategory } = {
+  difficulty: 'beginner',
+  category: 'utility',
+};
+
+/**
+ * Normalizes a label for comparison: "Good First_Issue " becomes "good-first-issue".
+ */
+export function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+function isKnownValue(kind: LabelKind, value: string): boolean {
+  const values: readonly string[] = kind === 'difficulty' ? TASK_DIFFICULTIES : TASK_CATEGORIES;
+  return values.includes(value);
+}
+
+function resolveKind(labels: string[], mappings: LabelMapping[], kind: LabelKind): string | null {
+  const normalized = labels.map(normalizeLabel);
+  let best: LabelMapping | null = null;
+
+  for (const mapping of mappings) {
+    if (mapping.kind !== kind || !isKnownValue(kind, mapping.value)) continue;
+    if (!normalized.includes(normalizeLabel(mapping.alias))) continue;
+    if (!best || mapping.priority > best.priority) {
+      best = mapping;
+    }
+  }
+
+  return best ? best.value : null;
+}
+
+function fallbackFor(mappings: LabelMapping[], kind: LabelKind): string {
+  const fallback = mappings.find((m) => m.kind === kind && m.is_fallback && isKnownValue(kind, m.value));
+  return fallback ? fallback.value : LAST_RESORT[kind];
+}
+
+/**
+ * Resolves an issue's labels to a task difficulty and category.
+ * When several labels match, the mapping with the highest priority wins.
+ * @param labels - Label names from the GitHub issue
+ * @param mappings - Rows of the `label_mappings` table
+ */
+export function resolveTaskLabels(labels: string[], mappings: LabelMapping[]): ResolvedLabels {
+  const fallbacks: LabelKind[] = [];
+
+  let difficulty = resolveKind(labels, mappings, 'difficulty');
+  if (!difficulty) {
+    difficulty = fallbackFor(mappings, 'difficulty');
+    fallbacks.push('difficulty');
+  }
+
+  let category = resolveKind(labels, mappings, 'category');
+  if (!category) {
+    category = fallbackFor(mappings, 'category');
+    fallbacks.push('category');
+  }
+
+  return {
+    difficulty: difficulty as TaskDifficulty,
+    category: category as TaskCategory,
+    fallbacks,
+  };
+}
+
+export interface FilterOption<T extends string> {
+  value: T;
+  aliases: string[];
+}
+
+/**
+ * Lists the values of a kind that have at least one mapping, in taxonomy order,
+ * with the labels that map onto each.
+ */
+export function filterOptions(mappings: LabelMapping[], kind: 'difficulty'): FilterOption<TaskDifficulty>[];
+export function filterOptions(mappings: LabelMapping[], kind: 'category'): FilterOption<TaskCategory>[];
+export function filterOptions(mappings: LabelMapping[], kind: LabelKind): FilterOption<string>[] {
+  const values: readonly string[] = kind === 'difficulty' ? TASK_DIFFICULTIES : TASK_CATEGORIES;
+
+  return values
+    .map((value) => ({
+      value,
+      aliases: mappings
+        .filter((m) => m.kind === kind && m.value === value)
+        .sort((a, b) => b.priority - a.priority)
+        .map((m) => m.alias),
+    }))
+    .filter((option) => option.aliases.length > 0);
+}
@@ -0,0 +1,40 @@
+/**
+ * Pull request helpers for linking PRs to tasks.
+ */
+
+const CLOSING_KEYWORDS = 'close[sd]?|fix(?:e[sd])?|resolve[sd]?';
+
+/**
+ * Finds the issues a pull request closes, using GitHub's closing keywords
+ * ("Fixes #12", "closes owner/repo#3", "Resolves https://github.com/owner/repo/issues/7").
+ * @param body - Pull request body
+ * @param repository - Full name (`owner/repo`) of the repository the PR belongs to.
+ *   References to issues in other repositories are ignored.
+ * @returns Unique issue numbers in order of appearance
+ */
+export function parseClosingReferences(body: string | null | undefined, repository: string): number[] {
+  if (!body) {
+    return [];
+  }
+
+  const pattern = new RegExp(
+    `\\b(?:${CLOSING_KEYWORDS})\\s*:?\\s+` +
+      `(?:https://github\\.com/([\\w.-]+/[\\w.-]+)/issues/|([\\w.-]+/[\\w.-]+)?#)(\\d+)\\b`,
+    'gi'
+  );
+
+  const numbers: number[] = [];
+  for (const match of body.matchAll(pattern)) {
+    const target = match[1] || match[2];
+    if (target && target.toLowerCase() !== repository.toLowerCase()) {
+      continue;
+    }
+
+    const number = Number(match[3]);
+    if (!numbers.includes(number)) {
+      numbers.push(number);
+    }
+  }
+
+  return numbers;
+}
@@ -0,0 +1,175 @@
+/**
+ * Task recommendations for newcomers.
+ *
+ * A short onboarding quiz produces a `NewcomerProfile`, kept in the browser.
+ * `scoreTask` rates how well an open task fits it: difficulty for the
+ * contributor's experience, matching interests and languages, and whether the
+ * estimate fits the time they have. The board's "Recommended for you" row
+ * lists the best matches from `recommendTasks`.
+ */
+
+import { TIME_BUDGETS, type TimeBudget } from './estimatedTime.ts';
+import { TASK_DIFFICULTIES, normalizeLabel, type TaskCategory, type TaskDifficulty } from './labelMapping.ts';
+
+export const EXPERIENCE_LEVELS = ['new', 'some', 'experienced'] as const;
+
+export type ExperienceLevel = (typeof EXPERIENCE_LEVELS)[number];
+
+export const EXPERIENCE_LEVEL_LABELS: Record<ExperienceLevel, string> = {
+  'new': 'This is my first contribution',
+  'some': 'I have opened a few pull requests',
+  'experienced': 'I contribute regularly',
+};
+
+/** Languages offered in the quiz, matched against task labels and titles. */
+export const LANGUAGES = ['Python', 'JavaScript', 'TypeScript', 'Rust', 'Go', 'Java', 'C++', 'Shell'] as const;
+
+export const INTERESTS = ['docs', 'testing', 'tooling', 'infrastructure', 'features', 'robotics'] as const;
+
+export type Interest = (typeof INTERESTS)[number];
+
+/** What each interest matches: a task category, or words in its labels and title. */
+export const INTEREST_MATCHES: Record<Interest, { label: string; category?: TaskCategory; keywords: string[] }> = {
+  'docs': { label: 'Documentation', category: 'documentation', keywords: ['docs', 'documentation', 'readme', 'tutorial'] },
+  'testing': { label: 'Testing', category: 'testing', keywords: ['test', 'tests', 'testing'] },
+  'tooling': { label: 'Tools and utilities', category: 'utility', keywords: ['cli', 'tool', 'tools', 'converter'] },
+  'infrastructure': { label: 'CI and infrastructure', category: 'infrastructure', keywords: ['ci', 'docker', 'deploy', 'build'] },
+  'features': { label: 'New features', category: 'feature', keywords: ['feature', 'enhancement'] },
+  'robotics': { label: 'Robotics and hardware', keywords: ['robotics', 'robot', 'ros', 'hardware', 'arduino'] },
+};
+
+export interface NewcomerProfile {
+  experience: ExperienceLevel;
+  languages: string[];
+  interests: Interest[];
+  time: TimeBudget | 'all';
+}
+
+/** Task fields the score looks at. */
+export interface RecommendableTask {
+  id: string;
+  title: string;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  labels: string[];
+  estimated_minutes_min?: number | null;
+  estimated_minutes_max?: number | null;
+  created_at: string;
+}
+
+export interface TaskScore {
+  score: number;
+  /** Why the task fits, for display. */
+  reasons: string[];
+}
+
+/** Points for each difficulty, by experience level. */
+const DIFFICULTY_FIT: Record<ExperienceLevel, Record<TaskDifficulty, number>> = {
+  'new': { 'good-first-issue': 3, 'beginner': 2, 'intermediate': -1, 'advanced': -3 },
+  'some': { 'good-first-issue': 1, 'beginner': 3, 'intermediate': 2, 'advanced': -1 },
+  'experienced': { 'good-first-issue': -1, 'beginner': 1, 'intermediate': 3, 'advanced': 3 },
+};
+
+const INTEREST_POINTS = 2;
+const LANGUAGE_POINTS = 2;
+const TIME_POINTS = 2;
+
+/** Words of a task's title and labels, normalized like labels. */
+function taskWords(task: RecommendableTask): Set<string> {
+  const words = task.title.toLowerCase().split(/[^\w+#]+/).filter(Boolean);
+  return new Set([...words, ...task.labels.map(normalizeLabel)]);
+}
+
+/**
+ * Rates how well a task fits a profile. Higher is better; a negative score
+ * means the task is a poor fit.
+ */
+export function scoreTask(task: RecommendableTask, profile: NewcomerProfile): TaskScore {
+  const words = taskWords(task);
+  const reasons: string[] = [];
+
+  const difficulty = DIFFICULTY_FIT[profile.experience][task.difficulty];
+  let score = difficulty;
+  if (difficulty >= 2) {
+    reasons.push('Right level for you');
+  }
+
+  const interest = profile.interests.find(value => {
+    const match = INTEREST_MATCHES[value];
+    return match.category === task.category || match.keywords.some(keyword => words.has(keyword));
+  });
+  if (interest) {
+    score += INTEREST_POINTS;
+    reasons.push(INTEREST_MATCHES[interest].label);
+  }
+
+  const language = profile.languages.find(value => words.has(normalizeLabel(value)));
+  if (language) {
+    score += LANGUAGE_POINTS;
+    reasons.push(language);
+  }
+
+  const budget = TIME_BUDGETS.find(b => b.value === profile.time);
+  if (budget) {
+    if (task.estimated_minutes_max != null && task.estimated_minutes_max <= budget.maxMinutes) {
+      score += TIME_POINTS;
+      reasons.push(`Fits ${budget.label.toLowerCase()}`);
+    } else if (task.estimated_minutes_min != null && task.estimated_minutes_min > budget.maxMinutes) {
+      score -= TIME_POINTS;
+    }
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Ranks tasks for a profile, best first, leaving out poor fits. Ties go to
+ * the newer task.
+ * @param tasks - Candidates; the caller picks open, unclaimed, unblocked tasks
+ */
+export function recommendTasks<T extends RecommendableTask>(
+  tasks: T[],
+  profile: NewcomerProfile,
+  limit: number
+): Array<T & TaskScore> {
+  return tasks
+    .map(task => ({ ...task, ...scoreTask(task, profile) }))
+    .filter(task => task.score > 0)
+    .sort((a, b) => b.score - a.score || (a.created_at < b.created_at ? 1 : a.created_at > b.created_at ? -1 : 0))
+    .slice(0, limit);
+}
+
+/**
+ * Reads a stored profile, dropping values that are no longer offered.
+ * @returns null when nothing usable is stored
+ */
+export function parseNewcomerProfile(value: string | null): NewcomerProfile | null {
+  if (!value) {
+    return null;
+  }
+
+  let data: Partial<Record<keyof NewcomerProfile, unknown>>;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object' || !EXPERIENCE_LEVELS.includes(data.experience as ExperienceLevel)) {
+    return null;
+  }
+
+  const list = (items: unknown) => (Array.isArray(items) ? items.filter(item => typeof item === 'string') : []);
+  const time = TIME_BUDGETS.some(b => b.value === data.time) ? (data.time as TimeBudget) : 'all';
+
+  return {
+    experience: data.experience as ExperienceLevel,
+    languages: list(data.languages).filter(language => (LANGUAGES as readonly string[]).includes(language)),
+    interests: list(data.interests).filter((interest): interest is Interest => INTERESTS.includes(interest as Interest)),
+    time,
+  };
+}
+
+/** Difficulties worth showing for an experience level, easiest first. */
+export function suitableDifficulties(experience: ExperienceLevel): TaskDifficulty[] {
+  return TASK_DIFFICULTIES.filter(difficulty => DIFFICULTY_FIT[experience][difficulty] > 0);
+}
@@ -0,0 +1,76 @@
+/**
+ * Task search helpers.
+ *
+ * Queries go to Postgres full-text search (`tasks.search_vector`) using the
+ * `websearch` syntax: words, "quoted phrases", `or` and `-excluded`. These
+ * helpers clean up what the user typed and find the words to highlight in the
+ * results.
+ */
+
+export const MAX_SEARCH_LENGTH = 100;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Trims and collapses whitespace, and caps the length of a search query.
+ */
+export function normalizeSearchQuery(input: string): string {
+  return input.trim().replace(/\s+/g, ' ').slice(0, MAX_SEARCH_LENGTH).trim();
+}
+
+/**
+ * Lists the lowercased words of a query worth highlighting. Excluded words
+ * (`-word`) and the `or` operator are left out.
+ * @example searchTerms('CSV -json or "temperature units"') // ['csv', 'temperature', 'units']
+ */
+export function searchTerms(query: string): string[] {
+  const terms = new Set<string>();
+
+  for (const token of normalizeSearchQuery(query).split(' ')) {
+    if (token.startsWith('-') || token.toLowerCase() === 'or') {
+      continue;
+    }
+
+    for (const word of token.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      terms.add(word);
+    }
+  }
+
+  return [...terms];
+}
+
+/**
+ * Splits `text` into plain and matching segments. A word matches when it
+ * starts with one of the terms, so "temperatures" is highlighted for
+ * "temperature" the same way Postgres stemming finds it.
+ */
+export function highlightMatches(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) {
+    return text ? [{ text, match: false }] : [];
+  }
+
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})[\\p{L}\\p{N}]*`, 'giu');
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      segments.push({ text: text.slice(last, start), match: false });
+    }
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ text: text.slice(last), match: false });
+  }
+
+  return segments;
+}
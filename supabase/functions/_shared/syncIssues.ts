@@ -0,0 +1,116 @@
+/**
+ * Backfill of GitHub issues into tasks.
+ *
+ * Pages through every issue of a repository, maps each one with the same
+ * logic as the github-webhook function, upserts by `github_issue_url`,
+ * records the dependencies in each issue body, and archives tasks whose
+ * issues no longer exist.
+ */
+
+import type { GitHubClient } from './githubClient.ts';
+import { issueToTask, type IssueTaskFields } from './issueTask.ts';
+import type { LabelMapping } from './labelMapping.ts';
+import { parseIssueDependencies, type IssueDependency } from './taskDependencies.ts';
+import { reconcileTask, transitionTask, type TaskState, type TaskStatus } from './taskStatus.ts';
+
+export interface ExistingTask {
+  id: string;
+  github_issue_url: string;
+  status: TaskStatus;
+  claimed_by: string | null;
+}
+
+export type SyncedTask = IssueTaskFields & TaskState;
+
+/** Storage used by the sync. The sync-issues function backs it with Supabase. */
+export interface TaskSyncStore {
+  listLabelMappings(): Promise<LabelMapping[]>;
+  /** Lists tasks whose `github_issue_url` starts with `issueUrlPrefix`. */
+  listTasks(issueUrlPrefix: string): Promise<ExistingTask[]>;
+  /** Inserts or updates tasks, matching on `github_issue_url`. */
+  upsertTasks(tasks: SyncedTask[]): Promise<void>;
+  updateTask(id: string, state: TaskState): Promise<void>;
+  /** Replaces the dependencies of the task for `issueUrl`. */
+  replaceDependencies(issueUrl: string, dependencies: IssueDependency[]): Promise<void>;
+}
+
+export interface SyncSummary {
+  repository: string;
+  created: number;
+  updated: number;
+  archived: number;
+}
+
+/**
+ * Imports every issue of `repository` into tasks.
+ * @param repository - `owner/repo`
+ */
+export async function syncRepositoryIssues(
+  github: GitHubClient,
+  store: TaskSyncStore,
+  repository: string
+): Promise<SyncSummary> {
+  const issueUrlPrefix = `https://github.com/${repository}/issues/`;
+
+  const [issues, mappings, existingTasks] = await Promise.all([
+    github.listIssues(repository),
+    store.listLabelMappings(),
+    store.listTasks(issueUrlPrefix),
+  ]);
+
+  const existingByUrl = new Map(existingTasks.map(task => [task.github_issue_url, task]));
+  const summary: SyncSummary = { repository, created: 0, updated: 0, archived: 0 };
+  const rows: SyncedTask[] = [];
+  const dependencies = new Map<string, IssueDependency[]>();
+
+  for (const issue of issues) {
+    const existing = existingByUrl.get(issue.html_url);
+    const current: TaskState | null = existing
+      ? { status: existing.status, claimed_by: existing.claimed_by }
+      : null;
+
+    const state = reconcileTask(current, {
+      state: issue.state,
+      assignee: issue.assignee?.login || null,
+      stateReason: issue.state_reason,
+    });
+
+    rows.push({ ...issueToTask(issue, mappings, repository).task, ...state });
+
+    // New tasks without links have nothing to replace.
+    const links = parseIssueDependencies(issue.body, repository, issue.html_url);
+    if (existing || links.length > 0) {
+      dependencies.set(issue.html_url, links);
+    }
+
+    if (existing) {
+      summary.updated++;
+      existingByUrl.delete(issue.html_url);
+    } else {
+      summary.created++;
+    }
+  }
+
+  if (rows.length > 0) {
+    await store.upsertTasks(rows);
+  }
+
+  for (const [issueUrl, links] of dependencies) {
+    await store.replaceDependencies(issueUrl, links);
+  }
+
+  // Whatever is left was not returned by GitHub: the issue was deleted or transferred.
+  for (const task of existingByUrl.values()) {
+    if (task.status === 'archived') continue;
+
+    const next = transitionTask({ status: task.status, claimed_by: task.claimed_by }, 'deleted', {
+      assignee: task.claimed_by,
+    });
+    if (next) {
+      await store.updateTask(task.id, next);
+      summary.archived++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,193 @@
+/**
+ * Task curation by maintainers.
+ *
+ * Maintainers create and edit tasks on the site instead of through GitHub.
+ * The admin console turns its form into task columns with `draftToTask`, and
+ * the publish-task function opens a GitHub issue for a task with
+ * `publishTask`. Once published, the issue is the source of truth again: the
+ * webhook and sync overwrite the task from it.
+ */
+
+import { extractEstimatedTime, parseEstimatedTime } from './estimatedTime.ts';
+import type { GitHubClient, NewIssue } from './githubClient.ts';
+import {
+  TASK_CATEGORIES,
+  TASK_DIFFICULTIES,
+  resolveTaskLabels,
+  type LabelKind,
+  type LabelMapping,
+  type TaskCategory,
+  type TaskDifficulty,
+} from './labelMapping.ts';
+
+export const MAX_TITLE_LENGTH = 200;
+
+/** What the admin form edits. */
+export interface TaskDraft {
+  title: string;
+  description: string;
+  repository: string;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  labels: string[];
+  /** Free text such as "2-3 hours"; empty for none. */
+  estimated_time: string;
+}
+
+/** Task columns written from a draft. */
+export interface TaskContent {
+  title: string;
+  description: string;
+  repository: string;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  labels: string[];
+  estimated_time: string | null;
+  estimated_minutes_min: number | null;
+  estimated_minutes_max: number | null;
+}
+
+/**
+ * Splits comma-separated label input, trimming and dropping duplicates.
+ * @example parseLabelInput('docs, good first issue,docs') // ['docs', 'good first issue']
+ */
+export function parseLabelInput(input: string): string[] {
+  return [...new Set(input.split(',').map(label => label.trim()).filter(Boolean))];
+}
+
+/**
+ * Lists what is wrong with a draft, or nothing when it can be saved.
+ */
+export function validateTaskDraft(draft: TaskDraft): string[] {
+  const errors: string[] = [];
+
+  if (!draft.title.trim()) {
+    errors.push('Title is required');
+  } else if (draft.title.trim().length > MAX_TITLE_LENGTH) {
+    errors.push(`Title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (!/^[\w.-]+\/[\w.-]+$/.test(draft.repository)) {
+    errors.push('Choose a repository');
+  }
+  if (!TASK_DIFFICULTIES.includes(draft.difficulty)) {
+    errors.push('Choose a difficulty');
+  }
+  if (!TASK_CATEGORIES.includes(draft.category)) {
+    errors.push('Choose a category');
+  }
+  if (draft.estimated_time.trim() && !parseEstimatedTime(draft.estimated_time)) {
+    errors.push('Estimated time should look like "30 min" or "2-3 hours"');
+  }
+
+  return errors;
+}
+
+/**
+ * Builds task columns from a draft, parsing the estimate the same way the
+ * webhook does.
+ */
+export function draftToTask(draft: TaskDraft): TaskContent {
+  const estimatedTime = draft.estimated_time.trim() || null;
+  const range = parseEstimatedTime(estimatedTime);
+
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    repository: draft.repository,
+    difficulty: draft.difficulty,
+    category: draft.category,
+    labels: [...new Set(draft.labels.map(label => label.trim()).filter(Boolean))],
+    estimated_time: estimatedTime,
+    estimated_minutes_min: range?.min ?? null,
+    estimated_minutes_max: range?.max ?? null,
+  };
+}
+
+/**
+ * Adds and removes labels, keeping the existing order. Removal wins when a
+ * label is in both lists.
+ */
+export function relabel(labels: string[], add: string[], remove: string[]): string[] {
+  const next = [...labels, ...add.filter(label => !labels.includes(label))];
+  return [...new Set(next)].filter(label => !remove.includes(label));
+}
+
+function aliasFor(mappings: LabelMapping[], kind: LabelKind, value: string): string | null {
+  const best = mappings
+    .filter(m => m.kind === kind && m.value === value)
+    .sort((a, b) => b.priority - a.priority)[0];
+  return best ? best.alias : null;
+}
+
+/**
+ * Builds the GitHub issue for a task. Labels for the difficulty and category
+ * are added when the task's own labels would not resolve to them, so the
+ * webhook maps the issue back onto the same task. The estimate is appended
+ * when the description does not state one.
+ */
+export function taskToIssue(task: TaskContent, mappings: LabelMapping[]): NewIssue {
+  const labels = [...task.labels];
+  const resolved = resolveTaskLabels(labels, mappings);
+
+  for (const [kind, value] of [['difficulty', task.difficulty], ['category', task.category]] as const) {
+    if (resolved[kind] === value && !resolved.fallbacks.includes(kind)) continue;
+    const alias = aliasFor(mappings, kind, value);
+    if (alias && !labels.includes(alias)) {
+      labels.push(alias);
+    }
+  }
+
+  let body = task.description;
+  if (task.estimated_time && !extractEstimatedTime(body)) {
+    body = `${body}\n\nEstimated Time: ${task.estimated_time}`.trim();
+  }
+
+  return { title: task.title, body, labels };
+}
+
+export class PublishTaskError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'PublishTaskError';
+  }
+}
+
+export interface PublishableTask extends TaskContent {
+  id: string;
+  github_issue_url: string | null;
+}
+
+export interface PublishStore {
+  getTask(id: string): Promise<PublishableTask | null>;
+  isRegisteredRepository(fullName: string): Promise<boolean>;
+  listLabelMappings(): Promise<LabelMapping[]>;
+  /** Links a task to its new issue. */
+  linkIssue(id: string, issueUrl: string): Promise<void>;
+}
+
+/**
+ * Opens a GitHub issue for a task and links the task to it.
+ * @throws PublishTaskError when the task is missing (404), already has an
+ *   issue (409) or belongs to an unregistered repository (400)
+ */
+export async function publishTask(
+  store: PublishStore,
+  github: GitHubClient,
+  id: string
+): Promise<{ issueUrl: string }> {
+  const task = await store.getTask(id);
+  if (!task) {
+    throw new PublishTaskError('Task not found', 404);
+  }
+  if (task.github_issue_url) {
+    throw new PublishTaskError('Task already has a GitHub issue', 409);
+  }
+  if (!(await store.isRegisteredRepository(task.repository))) {
+    throw new PublishTaskError(`Repository ${task.repository} is not registered`, 400);
+  }
+
+  const issue = await github.createIssue(task.repository, taskToIssue(task, await store.listLabelMappings()));
+  await store.linkIssue(task.id, issue.html_url);
+
+  return { issueUrl: issue.html_url };
+}
@@ -0,0 +1,103 @@
+/**
+ * Links between tasks, parsed from issue bodies.
+ *
+ * "Depends on #12" or "Blocked by #12" marks a task as blocked until issue 12
+ * is done. An epic lists its sub-tasks as a task list ("- [ ] #13"). The
+ * github-webhook function and the sync-issues backfill store the links in
+ * `task_dependencies`; Postgres keeps `tasks.blocked` up to date from them.
+ */
+
+import type { TaskStatus } from './taskStatus.ts';
+
+export const TASK_DEPENDENCY_KINDS = ['blocked_by', 'subtask'] as const;
+
+export type TaskDependencyKind = (typeof TASK_DEPENDENCY_KINDS)[number];
+
+/** A link from a task to another issue, by URL since that issue may not be a task yet. */
+export interface IssueDependency {
+  kind: TaskDependencyKind;
+  issue_url: string;
+}
+
+/** Statuses of a blocking task that no longer block. Mirrors `refresh_task_blocked()`. */
+export const RESOLVED_STATUSES: readonly TaskStatus[] = ['completed', 'archived'];
+
+const REFERENCE = '(?:https://github\\.com/([\\w.-]+/[\\w.-]+)/issues/|([\\w.-]+/[\\w.-]+)?#)(\\d+)\\b';
+
+function issueUrl(match: RegExpMatchArray, repository: string): string {
+  return `https://github.com/${match[1] || match[2] || repository}/issues/${match[3]}`;
+}
+
+function sameLink(a: IssueDependency, b: IssueDependency): boolean {
+  return a.kind === b.kind && a.issue_url.toLowerCase() === b.issue_url.toLowerCase();
+}
+
+/**
+ * Finds the issues a task depends on and its sub-tasks.
+ *
+ * - "Depends on #3", "Blocked by owner/repo#4, #5 and #6" or a full issue URL
+ *   make `blocked_by` links
+ * - Task list items that start with a reference ("- [ ] #7", "- [x] #8") make
+ *   `subtask` links
+ *
+ * @param body - Issue body
+ * @param repository - `owner/repo` the issue belongs to, for bare `#N` references
+ * @param selfUrl - The issue's own URL; references to it are ignored
+ * @returns Unique links in order of appearance
+ */
+export function parseIssueDependencies(
+  body: string | null | undefined,
+  repository: string,
+  selfUrl?: string
+): IssueDependency[] {
+  if (!body) {
+    return [];
+  }
+
+  const found: IssueDependency[] = [];
+  const add = (kind: TaskDependencyKind, url: string) => {
+    if (url.toLowerCase() === selfUrl?.toLowerCase()) return;
+    const link = { kind, issue_url: url };
+    if (!found.some(d => sameLink(d, link))) found.push(link);
+  };
+
+  const blockers = new RegExp(
+    `\\b(?:depends\\s+on|blocked\\s+by)\\s*:?\\s+(${REFERENCE}(?:\\s*(?:,|&|\\band\\b)\\s*${REFERENCE})*)`,
+    'gi'
+  );
+  for (const list of body.matchAll(blockers)) {
+    for (const match of list[1].matchAll(new RegExp(REFERENCE, 'g'))) {
+      add('blocked_by', issueUrl(match, repository));
+    }
+  }
+
+  const subtasks = new RegExp(`^\\s*[-*+]\\s+\\[[ xX]\\]\\s+${REFERENCE}`, 'gm');
+  for (const match of body.matchAll(subtasks)) {
+    add('subtask', issueUrl(match, repository));
+  }
+
+  return found;
+}
+
+/**
+ * Works out which stored links to delete and which to insert so a task ends up
+ * with `next`. Links that stay are left alone, so `tasks.blocked` does not
+ * flicker while an issue is edited.
+ * @returns Ids of stored links to delete, and links to insert
+ */
+export function diffDependencies(
+  current: Array<IssueDependency & { id: string }>,
+  next: IssueDependency[]
+): { removed: string[]; added: IssueDependency[] } {
+  return {
+    removed: current.filter(link => !next.some(d => sameLink(link, d))).map(link => link.id),
+    added: next.filter(d => !current.some(link => sameLink(link, d))),
+  };
+}
+
+/**
+ * Whether a task with this status still blocks the tasks that depend on it.
+ */
+export function isBlocking(status: TaskStatus): boolean {
+  return !RESOLVED_STATUSES.includes(status);
+}
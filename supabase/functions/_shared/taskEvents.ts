@@ -0,0 +1,61 @@
+/**
+ * Task history.
+ *
+ * Postgres triggers write a `task_events` row whenever a task is created or
+ * its status, claimant or labels change. These helpers turn rows into the
+ * sentences shown on the task detail timeline.
+ */
+
+import { TASK_STATUS_LABELS, TASK_STATUSES, type TaskStatus } from './taskStatus.ts';
+
+export const TASK_EVENT_TYPES = ['created', 'status_changed', 'claimed', 'released', 'labels_changed'] as const;
+
+export type TaskEventType = (typeof TASK_EVENT_TYPES)[number];
+
+export interface TaskEvent {
+  id: string;
+  event_type: TaskEventType;
+  /** GitHub username of whoever made the change on the board; null for the webhook and scheduled jobs. */
+  actor: string | null;
+  from_value: string | null;
+  to_value: string | null;
+  labels_added: string[];
+  labels_removed: string[];
+  created_at: string;
+}
+
+function statusLabel(value: string | null): string {
+  return TASK_STATUSES.includes(value as TaskStatus) ? TASK_STATUS_LABELS[value as TaskStatus] : value ?? 'unknown';
+}
+
+function labelList(labels: string[]): string {
+  return `${labels.length === 1 ? 'label' : 'labels'} ${labels.join(', ')}`;
+}
+
+/**
+ * Describes one history event in a short sentence.
+ * @example describeTaskEvent({ event_type: 'claimed', actor: 'octocat', to_value: 'octocat', ... }) // 'octocat claimed the task'
+ */
+export function describeTaskEvent(event: TaskEvent): string {
+  const { actor, from_value: from, to_value: to } = event;
+
+  switch (event.event_type) {
+    case 'created':
+      return to && to !== 'open' ? `Task created as ${statusLabel(to)}` : 'Task created';
+    case 'claimed':
+      if (!actor) return `Claimed by ${to}`;
+      return actor === to ? `${actor} claimed the task` : `${actor} assigned the task to ${to}`;
+    case 'released':
+      if (!actor) return `Claim by ${from} released`;
+      return actor === from ? `${actor} released the task` : `${actor} released ${from}'s claim`;
+    case 'status_changed':
+      return from ? `Status changed from ${statusLabel(from)} to ${statusLabel(to)}` : `Marked ${statusLabel(to)}`;
+    case 'labels_changed': {
+      const parts: string[] = [];
+      if (event.labels_added.length > 0) parts.push(`added ${labelList(event.labels_added)}`);
+      if (event.labels_removed.length > 0) parts.push(`removed ${labelList(event.labels_removed)}`);
+      const sentence = parts.join('; ') || 'labels changed';
+      return sentence[0].toUpperCase() + sentence.slice(1);
+    }
+  }
+}
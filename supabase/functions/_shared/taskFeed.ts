@@ -0,0 +1,276 @@
+/**
+ * Task feeds.
+ *
+ * The `task-feed` Edge Function publishes the newest open tasks as an Atom or
+ * JSON Feed document, so contributors can follow the board from a feed reader.
+ * A feed takes the board's own filter parameters and is queried with
+ * `applyTaskFilters`, so a feed shows the same tasks as the board link with the
+ * same query string.
+ */
+
+import {
+  TASK_CATEGORY_LABELS,
+  TASK_DIFFICULTY_LABELS,
+  type TaskCategory,
+  type TaskDifficulty,
+} from './labelMapping.ts';
+import { DEFAULT_TASK_FILTERS, parseTaskFilters, serializeTaskFilters, type TaskFilters } from './taskFilters.ts';
+
+export const FEED_FORMATS = ['atom', 'json'] as const;
+
+export type FeedFormat = (typeof FEED_FORMATS)[number];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  'atom': 'application/atom+xml; charset=utf-8',
+  'json': 'application/feed+json; charset=utf-8',
+};
+
+/** Number of tasks in a feed. */
+export const FEED_SIZE = 50;
+
+/** Columns a feed entry needs. */
+export const FEED_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'difficulty',
+  'category',
+  'labels',
+  'repository',
+  'github_issue_url',
+  'estimated_time',
+  'created_at',
+  'updated_at',
+].join(', ');
+
+export interface FeedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  labels: string[];
+  repository: string;
+  github_issue_url: string | null;
+  estimated_time: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedOptions {
+  /** Address of the board; entries link to `?task=<id>` on it. */
+  siteUrl: string;
+  /** Address the feed was requested from. */
+  feedUrl: string;
+  filters: TaskFilters;
+  /** Used as the feed's update time when it has no entries. */
+  now?: Date;
+}
+
+export interface FeedRequest {
+  format: FeedFormat;
+  filters: TaskFilters;
+}
+
+/**
+ * Reads a feed request. Filters are the board's query parameters, except that
+ * a feed always lists open tasks, newest first; there is no watchlist to
+ * filter by either.
+ * @example parseFeedRequest(new URLSearchParams('format=json&difficulty=beginner&label=docs'))
+ */
+export function parseFeedRequest(params: URLSearchParams): FeedRequest {
+  const format = params.get('format');
+
+  return {
+    format: FEED_FORMATS.includes(format as FeedFormat) ? (format as FeedFormat) : 'atom',
+    filters: {
+      ...parseTaskFilters(params),
+      status: 'open',
+      watchlist: false,
+      sort: 'newest',
+    },
+  };
+}
+
+/**
+ * Query string for the feed of a board view, the inverse of `parseFeedRequest`.
+ */
+export function feedParams(filters: TaskFilters, format: FeedFormat): URLSearchParams {
+  const params = serializeTaskFilters({
+    ...filters,
+    status: DEFAULT_TASK_FILTERS.status,
+    watchlist: false,
+    sort: DEFAULT_TASK_FILTERS.sort,
+  });
+  params.set('format', format);
+  return params;
+}
+
+/**
+ * Feed title naming the filters in use.
+ * @example feedTitle({ ...DEFAULT_TASK_FILTERS, difficulty: 'beginner' }) // 'Torctoberfest tasks: Beginner'
+ */
+export function feedTitle(filters: TaskFilters): string {
+  const parts = [
+    filters.difficulty !== 'all' ? TASK_DIFFICULTY_LABELS[filters.difficulty] : null,
+    filters.category !== 'all' ? TASK_CATEGORY_LABELS[filters.category] : null,
+    filters.repository !== 'all' ? filters.repository : null,
+    ...filters.labels,
+    filters.q.trim() ? `"${filters.q.trim()}"` : null,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `Torctoberfest tasks: ${parts.join(', ')}` : 'Torctoberfest tasks';
+}
+
+/** Link to a task's detail view on the board. */
+export function taskUrl(siteUrl: string, id: string): string {
+  const url = new URL(siteUrl);
+  url.searchParams.set('task', id);
+  return url.toString();
+}
+
+/** One-line summary: difficulty, category, estimate and repository. */
+function taskSummary(task: FeedTask): string {
+  return [
+    TASK_DIFFICULTY_LABELS[task.difficulty] ?? task.difficulty,
+    TASK_CATEGORY_LABELS[task.category] ?? task.category,
+    task.estimated_time,
+    task.repository,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function taskTags(task: FeedTask): string[] {
+  return [...new Set([task.difficulty, task.category, ...task.labels])];
+}
+
+/** Postgres timestamps as RFC 3339 in UTC, as both formats require. */
+function toTimestamp(value: string): string {
+  return new Date(value).toISOString();
+}
+
+/** Newest `updated_at` among the tasks. */
+function feedUpdated(tasks: FeedTask[], now: Date): string {
+  const times = tasks.map(task => new Date(task.updated_at).getTime());
+  return new Date(times.length > 0 ? Math.max(...times) : now.getTime()).toISOString();
+}
+
+/** Whether XML 1.0 allows a character at all: tab, newlines, and no other controls. */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  if (code < 0x20) {
+    return code === 0x09 || code === 0x0a || code === 0x0d;
+  }
+  return code !== 0xfffe && code !== 0xffff;
+}
+
+/**
+ * Escapes text for XML content and attribute values, dropping control
+ * characters XML 1.0 does not allow at all.
+ */
+export function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function atomEntry(task: FeedTask, siteUrl: string): string {
+  const lines = [
+    '  <entry>',
+    `    <id>urn:uuid:${escapeXml(task.id)}</id>`,
+    `    <title>${escapeXml(task.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(taskUrl(siteUrl, task.id))}"/>`,
+  ];
+  if (task.github_issue_url) {
+    lines.push(`    <link rel="related" type="text/html" href="${escapeXml(task.github_issue_url)}"/>`);
+  }
+  lines.push(
+    `    <published>${toTimestamp(task.created_at)}</published>`,
+    `    <updated>${toTimestamp(task.updated_at)}</updated>`,
+    ...taskTags(task).map(tag => `    <category term="${escapeXml(tag)}"/>`),
+    `    <summary>${escapeXml(taskSummary(task))}</summary>`
+  );
+  if (task.description) {
+    lines.push(`    <content type="text">${escapeXml(task.description)}</content>`);
+  }
+  lines.push('  </entry>');
+  return lines.join('\n');
+}
+
+/**
+ * Builds an Atom 1.0 document (RFC 4287). Descriptions are Markdown and are
+ * sent as plain text.
+ */
+export function buildAtomFeed(tasks: FeedTask[], options: FeedOptions): string {
+  const { siteUrl, feedUrl, filters, now = new Date() } = options;
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(feedTitle(filters))}</title>`,
+    `  <updated>${feedUpdated(tasks, now)}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}"/>`,
+    '  <author><name>Torctoberfest</name></author>',
+    ...tasks.map(task => atomEntry(task, siteUrl)),
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+export interface JsonFeedItem {
+  id: string;
+  url: string;
+  external_url?: string;
+  title: string;
+  summary: string;
+  content_text: string;
+  date_published: string;
+  date_modified: string;
+  tags: string[];
+}
+
+export interface JsonFeed {
+  version: 'https://jsonfeed.org/version/1.1';
+  title: string;
+  home_page_url: string;
+  feed_url: string;
+  authors: { name: string }[];
+  items: JsonFeedItem[];
+}
+
+/** Builds a JSON Feed 1.1 document. */
+export function buildJsonFeed(tasks: FeedTask[], options: FeedOptions): JsonFeed {
+  const { siteUrl, feedUrl, filters } = options;
+
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feedTitle(filters),
+    home_page_url: siteUrl,
+    feed_url: feedUrl,
+    authors: [{ name: 'Torctoberfest' }],
+    items: tasks.map(task => ({
+      id: task.id,
+      url: taskUrl(siteUrl, task.id),
+      ...(task.github_issue_url ? { external_url: task.github_issue_url } : {}),
+      title: task.title,
+      summary: taskSummary(task),
+      content_text: task.description || taskSummary(task),
+      date_published: toTimestamp(task.created_at),
+      date_modified: toTimestamp(task.updated_at),
+      tags: taskTags(task),
+    })),
+  };
+}
+
+/** Renders a feed in the requested format. */
+export function renderTaskFeed(format: FeedFormat, tasks: FeedTask[], options: FeedOptions): string {
+  return format === 'json' ? JSON.stringify(buildJsonFeed(tasks, options)) : buildAtomFeed(tasks, options);
+}
@@ -0,0 +1,330 @@
+/**
+ * Task board filters.
+ *
+ * One `TaskFilters` value describes what the board shows. It round-trips
+ * through URL query parameters so a view can be shared as a link, and
+ * `applyTaskFilters`/`applyTaskSort` turn it into a Supabase query, so every
+ * place that lists tasks filters them the same way. `matchesTaskFilters` and
+ * `compareTasks` do the same in memory for realtime updates.
+ */
+
+import { TIME_BUDGETS, type TimeBudget } from './estimatedTime.ts';
+import { TASK_CATEGORIES, TASK_DIFFICULTIES, type TaskCategory, type TaskDifficulty } from './labelMapping.ts';
+import { normalizeSearchQuery } from './search.ts';
+import { TASK_STATUS_TABS, statusesForTab, type TaskStatus, type TaskStatusTab } from './taskStatus.ts';
+
+export const TASK_SORTS = ['newest', 'oldest', 'updated', 'shortest'] as const;
+
+export type TaskSort = (typeof TASK_SORTS)[number];
+
+export const TASK_SORT_LABELS: Record<TaskSort, string> = {
+  'newest': 'Newest first',
+  'oldest': 'Oldest first',
+  'updated': 'Recently updated',
+  'shortest': 'Shortest first',
+};
+
+export const CLAIM_FILTERS = ['all', 'unclaimed', 'claimed'] as const;
+
+export type ClaimFilter = (typeof CLAIM_FILTERS)[number];
+
+export const CLAIM_FILTER_LABELS: Record<ClaimFilter, string> = {
+  'all': 'Anyone',
+  'unclaimed': 'Unclaimed',
+  'claimed': 'Claimed',
+};
+
+/** Query parameters written by `serializeTaskFilters`. */
+export const TASK_FILTER_PARAMS = ['q', 'status', 'difficulty', 'category', 'label', 'claimed', 'blocked', 'watchlist', 'time', 'repo', 'sort'];
+
+/** Most labels that can be combined in one filter. */
+export const MAX_LABEL_FILTERS = 10;
+
+export interface TaskFilters {
+  /** Search query as typed, see `search.ts`. */
+  q: string;
+  status: TaskStatusTab;
+  difficulty: TaskDifficulty | 'all';
+  category: TaskCategory | 'all';
+  /** GitHub labels a task must all have. */
+  labels: string[];
+  claim: ClaimFilter;
+  /** Leaves out tasks waiting on another task, see `taskDependencies.ts`. */
+  hideBlocked: boolean;
+  /** Only tasks on the viewer's watchlist, see `watchlist.ts`. */
+  watchlist: boolean;
+  time: TimeBudget | 'all';
+  /** `owner/repo`, or 'all'. */
+  repository: string;
+  sort: TaskSort;
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  q: '',
+  status: 'open',
+  difficulty: 'all',
+  category: 'all',
+  labels: [],
+  claim: 'all',
+  hideBlocked: false,
+  watchlist: false,
+  time: 'all',
+  repository: 'all',
+  sort: 'newest',
+};
+
+/** Open, unclaimed good first issues that are not waiting on other tasks. */
+export const NEWCOMER_FILTERS: Partial<TaskFilters> = {
+  status: 'open',
+  difficulty: 'good-first-issue',
+  claim: 'unclaimed',
+  hideBlocked: true,
+};
+
+/**
+ * The filter methods `applyTaskFilters` needs. Supabase query builders satisfy
+ * it whatever columns they select.
+ */
+export interface TaskFilterQuery {
+  eq(column: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  is(column: string, value: null): this;
+  not(column: string, operator: string, value: unknown): this;
+  contains(column: string, value: readonly unknown[]): this;
+  lte(column: string, value: unknown): this;
+  textSearch(column: string, query: string, options?: { config?: string; type?: 'websearch' }): this;
+}
+
+export interface TaskSortQuery {
+  order(column: string, options?: { ascending?: boolean; nullsFirst?: boolean }): this;
+}
+
+function oneOf<T extends string>(values: readonly T[], value: string | null, fallback: T): T {
+  return values.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Reads filters from URL query parameters. Unknown or invalid values fall back
+ * to the defaults.
+ * @example parseTaskFilters(new URLSearchParams('difficulty=beginner&label=good+first+issue'))
+ */
+export function parseTaskFilters(params: URLSearchParams): TaskFilters {
+  const labels = [...new Set(params.getAll('label').map(label => label.trim()).filter(Boolean))];
+  const repository = params.get('repo');
+
+  return {
+    q: params.get('q') ?? DEFAULT_TASK_FILTERS.q,
+    status: oneOf(TASK_STATUS_TABS, params.get('status'), DEFAULT_TASK_FILTERS.status),
+    difficulty: oneOf(['all', ...TASK_DIFFICULTIES], params.get('difficulty'), DEFAULT_TASK_FILTERS.difficulty),
+    category: oneOf(['all', ...TASK_CATEGORIES], params.get('category'), DEFAULT_TASK_FILTERS.category),
+    labels: labels.slice(0, MAX_LABEL_FILTERS),
+    claim: oneOf(CLAIM_FILTERS, params.get('claimed'), DEFAULT_TASK_FILTERS.claim),
+    hideBlocked: params.get('blocked') === 'hide',
+    watchlist: params.get('watchlist') === '1',
+    time: oneOf(['all', ...TIME_BUDGETS.map(budget => budget.value)], params.get('time'), DEFAULT_TASK_FILTERS.time),
+    repository: repository && /^[\w.-]+\/[\w.-]+$/.test(repository) ? repository : DEFAULT_TASK_FILTERS.repository,
+    sort: oneOf(TASK_SORTS, params.get('sort'), DEFAULT_TASK_FILTERS.sort),
+  };
+}
+
+/**
+ * Writes filters as URL query parameters, leaving out defaults so links stay short.
+ */
+export function serializeTaskFilters(filters: TaskFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string, fallback: string) => {
+    if (value !== fallback) params.set(name, value);
+  };
+
+  set('q', filters.q, DEFAULT_TASK_FILTERS.q);
+  set('status', filters.status, DEFAULT_TASK_FILTERS.status);
+  set('difficulty', filters.difficulty, DEFAULT_TASK_FILTERS.difficulty);
+  set('category', filters.category, DEFAULT_TASK_FILTERS.category);
+  for (const label of filters.labels) {
+    params.append('label', label);
+  }
+  set('claimed', filters.claim, DEFAULT_TASK_FILTERS.claim);
+  if (filters.hideBlocked) {
+    params.set('blocked', 'hide');
+  }
+  if (filters.watchlist) {
+    params.set('watchlist', '1');
+  }
+  set('time', filters.time, DEFAULT_TASK_FILTERS.time);
+  set('repo', filters.repository, DEFAULT_TASK_FILTERS.repository);
+  set('sort', filters.sort, DEFAULT_TASK_FILTERS.sort);
+
+  return params;
+}
+
+/**
+ * Adds the filters to a `tasks` query. Sorting is separate, see `applyTaskSort`.
+ * @param watchedIds - The viewer's watchlist, used when `filters.watchlist` is set
+ */
+export function applyTaskFilters<Q extends TaskFilterQuery>(
+  query: Q,
+  filters: TaskFilters,
+  watchedIds: readonly string[] = []
+): Q {
+  query = query.in('status', statusesForTab(filters.status));
+
+  const search = normalizeSearchQuery(filters.q);
+  if (search) {
+    query = query.textSearch('search_vector', search, { config: 'english', type: 'websearch' });
+  }
+
+  if (filters.difficulty !== 'all') {
+    query = query.eq('difficulty', filters.difficulty);
+  }
+
+  if (filters.category !== 'all') {
+    query = query.eq('category', filters.category);
+  }
+
+  if (filters.labels.length > 0) {
+    query = query.contains('labels', filters.labels);
+  }
+
+  if (filters.claim === 'claimed') {
+    query = query.not('claimed_by', 'is', null);
+  } else if (filters.claim === 'unclaimed') {
+    query = query.is('claimed_by', null);
+  }
+
+  if (filters.hideBlocked) {
+    query = query.eq('blocked', false);
+  }
+
+  if (filters.watchlist) {
+    query = query.in('id', watchedIds);
+  }
+
+  const budget = TIME_BUDGETS.find(b => b.value === filters.time);
+  if (budget) {
+    query = query.lte('estimated_minutes_max', budget.maxMinutes);
+  }
+
+  if (filters.repository !== 'all') {
+    query = query.eq('repository', filters.repository);
+  }
+
+  return query;
+}
+
+/**
+ * Orders a `tasks` query. Ties are broken by creation time, newest first, then
+ * by id so the order is stable enough for keyset pagination.
+ */
+export function applyTaskSort<Q extends TaskSortQuery>(query: Q, sort: TaskSort): Q {
+  switch (sort) {
+    case 'oldest':
+      return query.order('created_at', { ascending: true }).order('id', { ascending: true });
+    case 'updated':
+      return query.order('updated_at', { ascending: false }).order('id', { ascending: false });
+    case 'shortest':
+      return query
+        .order('estimated_minutes_min', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false });
+    case 'newest':
+      return query.order('created_at', { ascending: false }).order('id', { ascending: false });
+  }
+}
+
+/** Task fields the filters and sorts look at. */
+export interface FilterableTask {
+  id: string;
+  status: TaskStatus;
+  difficulty: TaskDifficulty;
+  category: TaskCategory;
+  labels: string[];
+  repository: string;
+  claimed_by?: string | null;
+  blocked?: boolean;
+  estimated_minutes_min?: number | null;
+  estimated_minutes_max?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Checks a task against every filter except the search query, which only
+ * Postgres can evaluate exactly. Mirrors `applyTaskFilters`.
+ */
+export function matchesTaskFilters(
+  task: FilterableTask,
+  filters: TaskFilters,
+  watchedIds: readonly string[] = []
+): boolean {
+  const budget = TIME_BUDGETS.find(b => b.value === filters.time);
+
+  return (
+    statusesForTab(filters.status).includes(task.status) &&
+    (filters.difficulty === 'all' || task.difficulty === filters.difficulty) &&
+    (filters.category === 'all' || task.category === filters.category) &&
+    filters.labels.every(label => task.labels.includes(label)) &&
+    (filters.claim === 'all' || (filters.claim === 'claimed') === Boolean(task.claimed_by)) &&
+    (!filters.hideBlocked || !task.blocked) &&
+    (!filters.watchlist || watchedIds.includes(task.id)) &&
+    (!budget || (task.estimated_minutes_max != null && task.estimated_minutes_max <= budget.maxMinutes)) &&
+    (filters.repository === 'all' || task.repository === filters.repository)
+  );
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function newestFirst(a: FilterableTask, b: FilterableTask): number {
+  return compareText(b.created_at, a.created_at) || compareText(b.id, a.id);
+}
+
+/**
+ * Comparator matching `applyTaskSort`. Timestamps are compared as ISO strings.
+ */
+export function compareTasks(sort: TaskSort): (a: FilterableTask, b: FilterableTask) => number {
+  switch (sort) {
+    case 'oldest':
+      return (a, b) => -newestFirst(a, b);
+    case 'updated':
+      return (a, b) => compareText(b.updated_at, a.updated_at) || compareText(b.id, a.id);
+    case 'shortest':
+      return (a, b) => {
+        const x = a.estimated_minutes_min;
+        const y = b.estimated_minutes_min;
+        if (x == null || y == null) {
+          return (x == null ? 1 : 0) - (y == null ? 1 : 0) || newestFirst(a, b);
+        }
+        return x - y || newestFirst(a, b);
+      };
+    case 'newest':
+      return newestFirst;
+  }
+}
+
+/**
+ * Applies one realtime change to a sorted task list. The changed task is
+ * removed, then put back in sort order if it still belongs in the list. While
+ * more pages remain (`complete` is false), a task that sorts after the last
+ * loaded one is left for its page to bring in.
+ */
+export function applyTaskChange<T extends FilterableTask>(
+  tasks: T[],
+  change: { type: 'upsert'; task: T; matches: boolean } | { type: 'delete'; id: string },
+  sort: TaskSort,
+  complete = true
+): T[] {
+  const id = change.type === 'delete' ? change.id : change.task.id;
+  const rest = tasks.filter(task => task.id !== id);
+
+  if (change.type === 'delete' || !change.matches) {
+    return rest.length === tasks.length ? tasks : rest;
+  }
+
+  const compare = compareTasks(sort);
+  const index = rest.findIndex(task => compare(change.task, task) < 0);
+  if (index === -1) {
+    return complete ? [...rest, change.task] : rest;
+  }
+  return [...rest.slice(0, index), change.task, ...rest.slice(index)];
+}
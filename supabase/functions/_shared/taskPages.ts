@@ -0,0 +1,100 @@
+/**
+ * Task list pagination.
+ *
+ * The board loads tasks a page at a time with keyset pagination: each page
+ * continues after the last row of the previous one in the active sort order,
+ * so rows inserted meanwhile never shift or duplicate a page the way OFFSET
+ * would.
+ */
+
+import type { FilterableTask, TaskSort } from './taskFilters.ts';
+
+export const TASK_PAGE_SIZE = 24;
+
+/** Length of `tasks.description_preview`; longer descriptions are loaded on demand. */
+export const DESCRIPTION_PREVIEW_LENGTH = 280;
+
+/** Columns the task grid needs. The full description is left out. */
+export const TASK_LIST_COLUMNS = [
+  'id',
+  'title',
+  'description_preview',
+  'difficulty',
+  'category',
+  'status',
+  'github_issue_url',
+  'repository',
+  'estimated_time',
+  'estimated_minutes_min',
+  'estimated_minutes_max',
+  'labels',
+  'claimed_by',
+  'claimed_at',
+  'blocked',
+  'created_at',
+  'updated_at',
+].join(', ');
+
+interface SortKey {
+  column: 'created_at' | 'updated_at' | 'estimated_minutes_min' | 'id';
+  ascending: boolean;
+  /** Null values sort after every other value. */
+  nullsLast?: boolean;
+}
+
+/** Sort keys in the order `applyTaskSort` applies them. */
+const SORT_KEYS: Record<TaskSort, SortKey[]> = {
+  'newest': [
+    { column: 'created_at', ascending: false },
+    { column: 'id', ascending: false },
+  ],
+  'oldest': [
+    { column: 'created_at', ascending: true },
+    { column: 'id', ascending: true },
+  ],
+  'updated': [
+    { column: 'updated_at', ascending: false },
+    { column: 'id', ascending: false },
+  ],
+  'shortest': [
+    { column: 'estimated_minutes_min', ascending: true, nullsLast: true },
+    { column: 'created_at', ascending: false },
+    { column: 'id', ascending: false },
+  ],
+};
+
+function quote(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function group(conditions: string[]): string {
+  return conditions.length === 1 ? conditions[0] : `or(${conditions.join(',')})`;
+}
+
+function conditionsAfter(keys: SortKey[], last: FilterableTask): string[] {
+  const [key, ...rest] = keys;
+  const value = last[key.column];
+
+  // Only rows that are also null can follow a null when nulls sort last.
+  if (value == null) {
+    return [`and(${key.column}.is.null,${group(conditionsAfter(rest, last))})`];
+  }
+
+  const conditions = [`${key.column}.${key.ascending ? 'gt' : 'lt'}.${quote(value)}`];
+  if (key.nullsLast) {
+    conditions.push(`${key.column}.is.null`);
+  }
+  if (rest.length > 0) {
+    conditions.push(`and(${key.column}.eq.${quote(value)},${group(conditionsAfter(rest, last))})`);
+  }
+  return conditions;
+}
+
+/**
+ * Builds the PostgREST `or` filter selecting the rows after `last` in `sort`
+ * order. Pass it to `query.or()` together with `applyTaskSort` and a limit.
+ * @example keysetFilter('newest', last) // 'created_at.lt."…",and(created_at.eq."…",id.lt."…")'
+ */
+export function keysetFilter(sort: TaskSort, last: FilterableTask): string {
+  return conditionsAfter(SORT_KEYS[sort], last).join(',');
+}
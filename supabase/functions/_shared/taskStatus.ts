@@ -0,0 +1,261 @@
+/**
+ * Task status state machine.
+ *
+ * Maps every GitHub issue action onto a task status transition. Shared by the
+ * github-webhook function and the frontend so both agree on what each status
+ * means and how a task moves between them.
+ */
+
+export const TASK_STATUSES = ['open', 'in-progress', 'in-review', 'completed', 'archived'] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  'open': 'Open',
+  'in-progress': 'In progress',
+  'in-review': 'In review',
+  'completed': 'Completed',
+  'archived': 'Archived',
+};
+
+/** Tabs on the task board. Archived tasks are never shown. */
+export const TASK_STATUS_TABS = ['open', 'in-progress', 'completed', 'all'] as const;
+
+export type TaskStatusTab = (typeof TASK_STATUS_TABS)[number];
+
+export const TASK_STATUS_TAB_LABELS: Record<TaskStatusTab, string> = {
+  'open': 'Open',
+  'in-progress': 'In progress',
+  'completed': 'Completed',
+  'all': 'All',
+};
+
+const TAB_STATUSES: Record<TaskStatusTab, TaskStatus[]> = {
+  'open': ['open'],
+  'in-progress': ['in-progress', 'in-review'],
+  'completed': ['completed'],
+  'all': ['open', 'in-progress', 'in-review', 'completed'],
+};
+
+/**
+ * Statuses listed under a board tab. Tasks in review count as in progress.
+ */
+export function statusesForTab(tab: TaskStatusTab): TaskStatus[] {
+  return TAB_STATUSES[tab];
+}
+
+/**
+ * Moves one task between tab counts after it changed.
+ * @param before - Status the task was counted under, or null if it was not counted
+ * @param after - Status it is counted under now, or null if it no longer is
+ */
+export function adjustTabCounts(
+  counts: Record<TaskStatusTab, number>,
+  before: TaskStatus | null,
+  after: TaskStatus | null
+): Record<TaskStatusTab, number> {
+  const next = { ...counts };
+  for (const tab of TASK_STATUS_TABS) {
+    if (before && TAB_STATUSES[tab].includes(before)) next[tab]--;
+    if (after && TAB_STATUSES[tab].includes(after)) next[tab]++;
+  }
+  return next;
+}
+
+export interface TaskState {
+  status: TaskStatus;
+  claimed_by: string | null;
+}
+
+export interface IssueSnapshot {
+  /** Login of the remaining assignee after the action, if any. */
+  assignee: string | null;
+  /** GitHub's `state_reason` for closed issues: `completed` or `not_planned`. */
+  stateReason?: string | null;
+}
+
+/**
+ * Actions that carry fresh issue content (title, body, labels) and should
+ * create the task when it does not exist yet.
+ */
+export const ISSUE_SYNC_ACTIONS = ['opened', 'edited', 'labeled', 'unlabeled', 'reopened'];
+
+/**
+ * Actions that never change a task's status or claim.
+ */
+const PASSIVE_ACTIONS = [
+  'edited',
+  'labeled',
+  'unlabeled',
+  'pinned',
+  'unpinned',
+  'locked',
+  'unlocked',
+  'milestoned',
+  'demilestoned',
+];
+
+function claimedState(assignee: string | null): TaskState {
+  return assignee
+    ? { status: 'in-progress', claimed_by: assignee }
+    : { status: 'open', claimed_by: null };
+}
+
+/**
+ * Computes the task state after a GitHub issue action.
+ * @param current - State of the existing task, or null if none exists yet
+ * @param action - The `action` field of an `issues` webhook payload
+ * @param issue - Assignee and close reason taken from the payload
+ * @returns The next state, or null when the action does not apply to the task
+ */
+export function transitionTask(
+  current: TaskState | null,
+  action: string,
+  issue: IssueSnapshot
+): TaskState | null {
+  switch (action) {
+    case 'opened':
+    case 'reopened':
+      return claimedState(issue.assignee);
+
+    case 'closed':
+      if (!current) return null;
+      return {
+        status: issue.stateReason === 'not_planned' ? 'archived' : 'completed',
+        claimed_by: current.claimed_by,
+      };
+
+    case 'assigned':
+    case 'unassigned':
+      if (!current) return null;
+      if (current.status === 'in-review' || current.status === 'completed' || current.status === 'archived') {
+        return { status: current.status, claimed_by: issue.assignee };
+      }
+      return claimedState(issue.assignee);
+
+    case 'deleted':
+    case 'transferred':
+      if (!current) return null;
+      return { status: 'archived', claimed_by: current.claimed_by };
+  }
+
+  if (PASSIVE_ACTIONS.includes(action)) {
+    return current ?? claimedState(issue.assignee);
+  }
+
+  return null;
+}
+
+export interface PullRequestSnapshot {
+  /** Login of the pull request author. */
+  author: string;
+  /** Whether the pull request that triggered the event was merged. */
+  merged: boolean;
+  /** Whether any pull request linked to the task is still open after the event. */
+  hasOpenPullRequest: boolean;
+}
+
+/**
+ * Computes the task state after a linked pull request was opened, updated or closed.
+ * An open PR puts the task in review, a merged PR completes it, and closing the
+ * last open PR without merging sends the task back to its claimant.
+ * @returns The next state, or null when the task should not change
+ */
+export function transitionForPullRequest(
+  current: TaskState,
+  pullRequest: PullRequestSnapshot
+): TaskState | null {
+  if (current.status === 'archived' || current.status === 'completed') {
+    return null;
+  }
+
+  if (pullRequest.merged) {
+    return { status: 'completed', claimed_by: current.claimed_by ?? pullRequest.author };
+  }
+
+  if (pullRequest.hasOpenPullRequest) {
+    return { status: 'in-review', claimed_by: current.claimed_by ?? pullRequest.author };
+  }
+
+  if (current.status === 'in-review') {
+    return claimedState(current.claimed_by);
+  }
+
+  return null;
+}
+
+export interface IssueStateSnapshot extends IssueSnapshot {
+  /** GitHub issue state: `open` or `closed`. */
+  state: string;
+}
+
+/**
+ * Computes the task state that matches an issue's current state, for syncs
+ * that see a snapshot of the issue rather than the action that produced it.
+ * Reuses the issue action transitions so a sync and the webhook always agree.
+ * An open issue without an assignee keeps the task's claim, since tasks can
+ * also be claimed from the board without assigning the issue. Archived tasks
+ * stay archived: an open issue does not say whether a maintainer archived the
+ * task on purpose, and reopening the issue is seen by the webhook instead.
+ */
+export function reconcileTask(current: TaskState | null, issue: IssueStateSnapshot): TaskState {
+  const base = current ?? claimedState(issue.assignee);
+
+  if (base.status === 'archived') {
+    return base;
+  }
+
+  if (issue.state === 'closed') {
+    if (base.status === 'completed') {
+      return base;
+    }
+    return transitionTask(base, 'closed', issue) ?? base;
+  }
+
+  if (base.status === 'completed') {
+    return transitionTask(base, 'reopened', issue) ?? base;
+  }
+
+  if (!issue.assignee) {
+    return base;
+  }
+
+  return transitionTask(base, 'assigned', issue) ?? base;
+}
+
+/**
+ * Claims a task for `login` from the board. Only open, unclaimed tasks can be claimed.
+ * @returns The next state, or null when the task cannot be claimed
+ */
+export function claimTask(current: TaskState, login: string): TaskState | null {
+  if (current.status !== 'open' || current.claimed_by) {
+    return null;
+  }
+
+  return claimedState(login);
+}
+
+/**
+ * Releases a claim made by `login`. Tasks in review or closed keep their claim.
+ * @returns The next state, or null when `login` cannot release the task
+ */
+export function releaseTask(current: TaskState, login: string): TaskState | null {
+  if (current.status !== 'in-progress' || current.claimed_by !== login) {
+    return null;
+  }
+
+  return claimedState(null);
+}
+
+/**
+ * Restores an archived task from the admin console. A task that was claimed
+ * when it was archived goes back to its claimant.
+ * @returns The next state, or null when the task is not archived
+ */
+export function restoreTask(current: TaskState): TaskState | null {
+  if (current.status !== 'archived') {
+    return null;
+  }
+
+  return claimedState(current.claimed_by);
+}
@@ -0,0 +1,79 @@
+/**
+ * Watched tasks.
+ *
+ * Contributors star tasks they want to follow. Signed-in users keep the list
+ * in `task_watches`; everyone else keeps it in local storage. The board turns
+ * realtime changes to a watched task into a notice with `describeWatchedChange`.
+ */
+
+import type { TaskStatus } from './taskStatus.ts';
+
+/** Most tasks a watchlist keeps, so the board's `id=in.(...)` filter stays short. */
+export const MAX_WATCHED_TASKS = 100;
+
+/** What a notice compares between two versions of a watched task. */
+export interface WatchedTaskState {
+  title: string;
+  status: TaskStatus;
+  claimed_by: string | null;
+}
+
+export type WatchNoticeKind = 'claimed' | 'released' | 'closed';
+
+export interface WatchNotice {
+  kind: WatchNoticeKind;
+  message: string;
+}
+
+/**
+ * Describes a change to a watched task worth telling the watcher about: a
+ * claim, a released claim, or the task being completed or closed. Claims and
+ * releases by the watcher themselves are left out.
+ * @param viewer - GitHub login of the watcher, if signed in
+ * @returns null when nothing notable changed
+ */
+export function describeWatchedChange(
+  before: WatchedTaskState,
+  after: WatchedTaskState,
+  viewer: string | null = null
+): WatchNotice | null {
+  const title = `"${after.title}"`;
+
+  if (after.status !== before.status && (after.status === 'completed' || after.status === 'archived')) {
+    return {
+      kind: 'closed',
+      message: after.status === 'completed' ? `${title} was completed` : `${title} was closed`,
+    };
+  }
+
+  if (after.claimed_by === before.claimed_by) {
+    return null;
+  }
+  if (after.claimed_by) {
+    return after.claimed_by === viewer ? null : { kind: 'claimed', message: `${after.claimed_by} claimed ${title}` };
+  }
+  return before.claimed_by === viewer ? null : { kind: 'released', message: `${title} is available again` };
+}
+
+/**
+ * Reads a watchlist kept in local storage.
+ * @returns Task ids, without duplicates, or none when the value is unusable
+ */
+export function parseWatchlist(value: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const ids: unknown = JSON.parse(value);
+    if (!Array.isArray(ids)) {
+      return [];
+    }
+    return [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))].slice(
+      0,
+      MAX_WATCHED_TASKS
+    );
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * GitHub webhook request verification.
+ *
+ * GitHub signs every delivery with HMAC-SHA256 over the raw request body and
+ * sends it as `X-Hub-Signature-256: sha256=<hex>`. Each delivery also carries a
+ * unique `X-GitHub-Delivery` id, which we record to reject replays. An id whose
+ * processing failed is forgotten again, so "Redeliver" on GitHub can retry it.
+ */
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+export interface DeliveryLog {
+  /**
+   * Records a delivery id. Resolves to `false` when the id was already seen.
+   */
+  register(deliveryId: string, event: string): Promise<boolean>;
+  /**
+   * Forgets a delivery id, so the same delivery is accepted again.
+   */
+  release(deliveryId: string): Promise<void>;
+}
+
+export type VerificationResult =
+  | { ok: true; deliveryId: string; event: string }
+  | { ok: false; status: number; error: string };
+
+export interface VerifyWebhookOptions {
+  secret: string;
+  body: string;
+  headers: Headers;
+  deliveries: DeliveryLog;
+}
+
+/**
+ * Computes the `X-Hub-Signature-256` header value for a payload.
+ */
+export async function computeSignature(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return SIGNATURE_PREFIX + hex;
+}
+
+/**
+ * Compares two strings without short-circuiting on the first mismatch.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  const length = Math.max(left.length, right.length);
+
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Checks a signature header against the payload signed with `secret`.
+ */
+export async function verifySignature(
+  secret: string,
+  payload: string,
+  signatureHeader: string | null
+): Promise<boolean> {
+  if (!signatureHeader || !signatureHeader.startsWith(SIGNATURE_PREFIX)) {
+    return false;
+  }
+
+  const expected = await computeSignature(secret, payload);
+  return timingSafeEqual(expected, signatureHeader);
+}
+
+/**
+ * Verifies the signature of an incoming delivery and rejects replays.
+ * The delivery id is only registered once the signature checks out, so
+ * forged requests cannot burn legitimate ids.
+ */
+export async function verifyWebhook({
+  secret,
+  body,
+  headers,
+  deliveries,
+}: VerifyWebhookOptions): Promise<VerificationResult> {
+  const valid = await verifySignature(secret, body, headers.get('X-Hub-Signature-256'));
+  if (!valid) {
+    return { ok: false, status: 401, error: 'Invalid signature' };
+  }
+
+  const deliveryId = headers.get('X-GitHub-Delivery');
+  if (!deliveryId) {
+    return { ok: false, status: 400, error: 'Missing X-GitHub-Delivery header' };
+  }
+
+  const event = headers.get('X-GitHub-Event') || 'unknown';
+  const fresh = await deliveries.register(deliveryId, event);
+  if (!fresh) {
+    return { ok: false, status: 409, error: 'Delivery already processed' };
+  }
+
+  return { ok: true, deliveryId, event };
+}
+
+/**
+ * Processes a verified delivery. When processing fails, the delivery id is
+ * released before the error is rethrown, so GitHub's "Redeliver" is not
+ * rejected as a replay of an event that was never applied.
+ */
+export async function processDelivery<T>(
+  deliveries: DeliveryLog,
+  deliveryId: string,
+  process: () => Promise<T>
+): Promise<T> {
+  try {
+    return await process();
+  } catch (error) {
+    try {
+      await deliveries.release(deliveryId);
+    } catch (releaseError) {
+      console.error('Could not release delivery', deliveryId, releaseError);
+    }
+    throw error;
+  }
+}
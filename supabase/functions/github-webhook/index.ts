@@ -1,29 +1,50 @@
-import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { chatEventFor, notifyChannels, type ChatEvent } from '../_shared/chatNotifications.ts';
+import { issueToTask, type GitHubIssueData } from '../_shared/issueTask.ts';
+import { parseClosingReferences } from '../_shared/pullRequests.ts';
+import { diffDependencies, parseIssueDependencies, type IssueDependency } from '../_shared/taskDependencies.ts';
+import { ISSUE_SYNC_ACTIONS, transitionForPullRequest, transitionTask, type TaskState } from '../_shared/taskStatus.ts';
+import { processDelivery, verifyWebhook, type DeliveryLog } from '../_shared/webhookSignature.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Hub-Signature-256',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, X-Hub-Signature-256, X-GitHub-Delivery, X-GitHub-Event',
 };
 
+interface GitHubRepository {
+  full_name: string;
+  html_url: string;
+}
+
 interface GitHubIssue {
   action: string;
-  issue: {
+  issue: GitHubIssueData;
+  repository: GitHubRepository;
+}
+
+interface GitHubPullRequest {
+  action: string;
+  pull_request: {
     number: number;
     title: string;
-    body: string;
+    body: string | null;
     html_url: string;
-    labels: Array<{ name: string }>;
+    state: 'open' | 'closed';
+    merged: boolean;
+    created_at: string;
+    merged_at: string | null;
     user: {
       login: string;
     };
-    state: string;
-    assignee?: {
-      login: string;
-    };
   };
+  repository: GitHubRepository;
 }
 
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const PULL_REQUEST_ACTIONS = ['opened', 'reopened', 'edited', 'ready_for_review', 'closed'];
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -35,102 +56,381 @@ Deno.serve(async (req: Request) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const webhookSecret = Deno.env.get('GITHUB_WEBHOOK_SECRET');
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const payload: GitHubIssue = await req.json();
-    console.log('Received webhook:', payload.action);
+    if (!webhookSecret) {
+      console.error('GITHUB_WEBHOOK_SECRET is not configured');
+      return jsonResponse({ error: 'Webhook secret not configured' }, 500);
+    }
 
-    if (payload.action === 'opened' || payload.action === 'edited' || payload.action === 'labeled' || payload.action === 'unlabeled') {
-      const issue = payload.issue;
-      const labels = issue.labels.map(l => l.name);
+    const body = await req.text();
+    const deliveries = createDeliveryLog(supabase);
+    const verification = await verifyWebhook({
+      secret: webhookSecret,
+      body,
+      headers: req.headers,
+      deliveries,
+    });
 
-      const difficulty = labels.find(l =>
-        ['good-first-issue', 'beginner', 'intermediate', 'advanced'].includes(l)
-      ) || 'beginner';
+    if (!verification.ok) {
+      console.warn('Rejected webhook:', verification.error);
+      return jsonResponse({ error: verification.error }, verification.status);
+    }
 
-      const category = labels.find(l =>
-        ['utility', 'documentation', 'testing', 'infrastructure', 'feature'].includes(l)
-      ) || 'utility';
+    return await processDelivery(deliveries, verification.deliveryId, async () => {
+      const payload = JSON.parse(body);
+      console.log('Received webhook:', verification.event, payload.action, payload.repository?.full_name);
 
-      const estimatedTime = extractEstimatedTime(issue.body || '');
+      if (payload.repository && !(await isRegisteredRepository(supabase, payload.repository.full_name))) {
+        console.warn('Ignored event for unregistered repository:', payload.repository.full_name);
+        return jsonResponse({ ignored: 'Repository is not registered' }, 202);
+      }
 
-      const taskData = {
-        title: issue.title,
-        description: issue.body || '',
-        difficulty,
-        category,
-        status: 'open',
-        github_issue_url: issue.html_url,
-        estimated_time: estimatedTime || '2-3 hours',
-        labels: labels,
-        claimed_by: issue.assignee?.login || null,
-      };
+      if (verification.event === 'issues') {
+        await handleIssueEvent(supabase, payload as GitHubIssue);
+      } else if (verification.event === 'pull_request') {
+        await handlePullRequestEvent(supabase, payload as GitHubPullRequest);
+      } else {
+        console.log('Ignored event:', verification.event);
+      }
 
-      const { data: existing } = await supabase
-        .from('tasks')
-        .select('id')
-        .eq('github_issue_url', issue.html_url)
-        .maybeSingle();
+      return jsonResponse({ success: true }, 200);
+    });
+  } catch (error) {
+    console.error('Webhook error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
 
-      if (existing) {
-        await supabase
-          .from('tasks')
-          .update(taskData)
-          .eq('id', existing.id);
+async function handleIssueEvent(supabase: SupabaseClient, payload: GitHubIssue) {
+  const issue = payload.issue;
 
-        console.log('Updated existing task');
-      } else {
-        await supabase
-          .from('tasks')
-          .insert(taskData);
+  const { data: existing, error: lookupError } = await supabase
+    .from('tasks')
+    .select('id, status, claimed_by')
+    .eq('github_issue_url', issue.html_url)
+    .maybeSingle();
 
-        console.log('Created new task');
-      }
-    } else if (payload.action === 'closed') {
-      const { data } = await supabase
+  if (lookupError) {
+    throw lookupError;
+  }
+
+  const current: TaskState | null = existing
+    ? { status: existing.status, claimed_by: existing.claimed_by }
+    : null;
+
+  const next = transitionTask(current, payload.action, {
+    assignee: issue.assignee?.login || null,
+    stateReason: issue.state_reason,
+  });
+
+  if (!next) {
+    console.log('Ignored issue action:', payload.action);
+    return;
+  }
+
+  if (ISSUE_SYNC_ACTIONS.includes(payload.action)) {
+    const { data: mappings, error: mappingError } = await supabase
+      .from('label_mappings')
+      .select('kind, value, alias, priority, is_fallback');
+
+    if (mappingError) {
+      throw mappingError;
+    }
+
+    const { task, fallbacks } = issueToTask(issue, mappings ?? [], payload.repository.full_name);
+    if (fallbacks.length > 0) {
+      console.warn(`Issue #${issue.number} has no ${fallbacks.join(' or ')} label, using fallback`);
+    }
+
+    const taskData = {
+      ...task,
+      status: next.status,
+      claimed_by: next.claimed_by,
+    };
+
+    let taskId = existing?.id;
+    if (existing) {
+      const { error } = await supabase
         .from('tasks')
-        .update({ status: 'completed' })
-        .eq('github_issue_url', payload.issue.html_url);
+        .update(taskData)
+        .eq('id', existing.id);
+
+      if (error) {
+        throw error;
+      }
 
-      console.log('Closed task');
-    } else if (payload.action === 'assigned') {
-      const { data } = await supabase
+      console.log('Updated existing task');
+    } else {
+      const { data: created, error } = await supabase
         .from('tasks')
-        .update({
-          claimed_by: payload.issue.assignee?.login || null,
-          status: 'in-progress'
-        })
-        .eq('github_issue_url', payload.issue.html_url);
+        .insert(taskData)
+        .select('id')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      taskId = created.id;
 
-      console.log('Task assigned');
+      console.log('Created new task');
     }
 
-    return new Response(
-      JSON.stringify({ success: true }),
-      {
-        status: 200,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
-        },
-      }
+    await replaceDependencies(
+      supabase,
+      taskId,
+      parseIssueDependencies(issue.body, payload.repository.full_name, issue.html_url)
     );
-  } catch (error) {
-    console.error('Webhook error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'application/json',
+    scheduleChatNotification(supabase, taskId, current, next);
+    return;
+  }
+
+  if (!existing || (next.status === current?.status && next.claimed_by === current?.claimed_by)) {
+    console.log('No task change for action:', payload.action);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('tasks')
+    .update(next)
+    .eq('id', existing.id);
+
+  if (error) {
+    throw error;
+  }
+
+  console.log(`Task ${payload.action}: ${current?.status} -> ${next.status}`);
+  scheduleChatNotification(supabase, existing.id, current, next);
+}
+
+async function handlePullRequestEvent(supabase: SupabaseClient, payload: GitHubPullRequest) {
+  if (!PULL_REQUEST_ACTIONS.includes(payload.action)) {
+    console.log('Ignored pull request action:', payload.action);
+    return;
+  }
+
+  const pr = payload.pull_request;
+  const issueNumbers = parseClosingReferences(pr.body, payload.repository.full_name);
+
+  for (const issueNumber of issueNumbers) {
+    const issueUrl = `${payload.repository.html_url}/issues/${issueNumber}`;
+
+    const { data: task, error: lookupError } = await supabase
+      .from('tasks')
+      .select('id, status, claimed_by')
+      .eq('github_issue_url', issueUrl)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw lookupError;
+    }
+
+    if (!task) {
+      console.log('No task linked to issue', issueNumber);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('task_pull_requests')
+      .upsert(
+        {
+          task_id: task.id,
+          number: pr.number,
+          html_url: pr.html_url,
+          author: pr.user.login,
+          state: pr.state,
+          merged: pr.merged,
+          opened_at: pr.created_at,
+          merged_at: pr.merged_at,
+          updated_at: new Date().toISOString(),
         },
-      }
+        { onConflict: 'task_id,number' }
+      );
+
+    if (error) {
+      throw error;
+    }
+
+    const { count, error: countError } = await supabase
+      .from('task_pull_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('task_id', task.id)
+      .eq('state', 'open');
+
+    if (countError) {
+      throw countError;
+    }
+
+    const next = transitionForPullRequest(
+      { status: task.status, claimed_by: task.claimed_by },
+      { author: pr.user.login, merged: pr.merged, hasOpenPullRequest: (count ?? 0) > 0 }
     );
+
+    if (!next) {
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('tasks')
+      .update(next)
+      .eq('id', task.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    console.log(`Pull request #${pr.number} ${payload.action}: task ${task.status} -> ${next.status}`);
+    scheduleChatNotification(supabase, task.id, { status: task.status, claimed_by: task.claimed_by }, next);
   }
-});
+}
+
+/** Stores the links parsed from an issue body, keeping links that did not change. */
+async function replaceDependencies(supabase: SupabaseClient, taskId: string, dependencies: IssueDependency[]) {
+  const { data: current, error } = await supabase
+    .from('task_dependencies')
+    .select('id, kind, issue_url')
+    .eq('task_id', taskId);
+
+  if (error) {
+    throw error;
+  }
+
+  const { removed, added } = diffDependencies(current ?? [], dependencies);
+  if (removed.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .in('id', removed);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+  }
+  if (added.length > 0) {
+    const { error: insertError } = await supabase
+      .from('task_dependencies')
+      .insert(added.map(dependency => ({ ...dependency, task_id: taskId })));
 
-function extractEstimatedTime(body: string): string | null {
-  const match = body.match(/Estimated Time[:\s]+([^\n]+)/i);
-  return match ? match[1].trim() : null;
+    if (insertError) {
+      throw insertError;
+    }
+  }
+
+  if (removed.length > 0 || added.length > 0) {
+    console.log(`Dependencies: +${added.length} -${removed.length}`);
+  }
+}
+
+/**
+ * Posts a task change to the chat channels that want it. Runs after the
+ * response is sent, so slow channels and their retries cannot delay GitHub.
+ */
+function scheduleChatNotification(
+  supabase: SupabaseClient,
+  taskId: string,
+  before: TaskState | null,
+  after: TaskState
+) {
+  const event = chatEventFor(before, after);
+  if (!event) {
+    return;
+  }
+
+  EdgeRuntime.waitUntil(
+    notifyChat(supabase, taskId, event).catch(error => console.error('Chat notification error:', error))
+  );
+}
+
+async function notifyChat(supabase: SupabaseClient, taskId: string, event: ChatEvent) {
+  const { data: webhooks, error } = await supabase
+    .from('chat_webhooks')
+    .select('id, name, format, url, events, difficulties, categories, repositories')
+    .eq('active', true);
+
+  if (error) {
+    throw error;
+  }
+  if (!webhooks || webhooks.length === 0) {
+    return;
+  }
+
+  const { data: task, error: taskError } = await supabase
+    .from('tasks')
+    .select('id, title, difficulty, category, repository, github_issue_url, claimed_by')
+    .eq('id', taskId)
+    .single();
+
+  if (taskError) {
+    throw taskError;
+  }
+
+  const deliveries = await notifyChannels(webhooks, event, task, { siteUrl: Deno.env.get('SITE_URL') });
+  for (const delivery of deliveries) {
+    if (!delivery.ok) {
+      console.error(`Chat notification to ${delivery.webhook} failed:`, delivery.error);
+    }
+  }
+  if (deliveries.length > 0) {
+    console.log(`Chat ${event}: ${deliveries.filter(delivery => delivery.ok).length}/${deliveries.length} delivered`);
+  }
+}
+
+async function isRegisteredRepository(supabase: SupabaseClient, fullName: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('repositories')
+    .select('id')
+    .eq('full_name', fullName)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return Boolean(data);
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+function createDeliveryLog(supabase: SupabaseClient): DeliveryLog {
+  return {
+    async register(deliveryId, event) {
+      const { error } = await supabase
+        .from('webhook_deliveries')
+        .insert({ delivery_id: deliveryId, event });
+
+      if (error) {
+        // 23505 = unique_violation: this delivery id was already recorded.
+        if (error.code === '23505') {
+          return false;
+        }
+        throw error;
+      }
+
+      return true;
+    },
+
+    async release(deliveryId) {
+      const { error } = await supabase
+        .from('webhook_deliveries')
+        .delete()
+        .eq('delivery_id', deliveryId);
+
+      if (error) {
+        throw error;
+      }
+    },
+  };
 }
@@ -0,0 +1,125 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { createGitHubClient, GITHUB_API_URL } from '../_shared/githubClient.ts';
+import { publishTask, PublishTaskError, type PublishStore } from '../_shared/taskAdmin.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+    // Ask Postgres as the caller, so the same `is_maintainer()` check as the RLS policies applies.
+    const caller = createClient(supabaseUrl, anonKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+    });
+    const { data: maintainer, error: roleError } = await caller.rpc('is_maintainer');
+
+    if (roleError) {
+      throw roleError;
+    }
+    if (!maintainer) {
+      return jsonResponse({ error: 'Maintainer sign-in required' }, 403);
+    }
+
+    const { task_id: taskId } = await req.json();
+    if (typeof taskId !== 'string') {
+      return jsonResponse({ error: 'task_id is required' }, 400);
+    }
+
+    const github = createGitHubClient({
+      token: Deno.env.get('GITHUB_TOKEN'),
+      baseUrl: Deno.env.get('GITHUB_API_URL') || GITHUB_API_URL,
+    });
+
+    const result = await publishTask(createPublishStore(createClient(supabaseUrl, supabaseKey)), github, taskId);
+    console.log('Published task', taskId, 'as', result.issueUrl);
+
+    return jsonResponse(result, 200);
+  } catch (error) {
+    if (error instanceof PublishTaskError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error('Publish error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+function createPublishStore(supabase: SupabaseClient): PublishStore {
+  return {
+    async getTask(id) {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, description, repository, difficulty, category, labels, estimated_time, estimated_minutes_min, estimated_minutes_max, github_issue_url')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data && { ...data, description: data.description ?? '', labels: data.labels ?? [] };
+    },
+
+    async isRegisteredRepository(fullName) {
+      const { data, error } = await supabase
+        .from('repositories')
+        .select('id')
+        .eq('full_name', fullName)
+        .eq('active', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      return Boolean(data);
+    },
+
+    async listLabelMappings() {
+      const { data, error } = await supabase
+        .from('label_mappings')
+        .select('kind, value, alias, priority, is_fallback');
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async linkIssue(id, issueUrl) {
+      // The webhook may have seen the new issue first and created a task for it.
+      const { error: deleteError } = await supabase
+        .from('tasks')
+        .delete()
+        .eq('github_issue_url', issueUrl)
+        .neq('id', id);
+
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase
+        .from('tasks')
+        .update({ github_issue_url: issueUrl })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+  };
+}
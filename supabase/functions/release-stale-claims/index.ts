@@ -0,0 +1,104 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { releaseStaleClaims, type ClaimStore } from '../_shared/claimExpiry.ts';
+import { createGitHubClient, GITHUB_API_URL } from '../_shared/githubClient.ts';
+import { timingSafeEqual } from '../_shared/webhookSignature.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The anon key also passes the gateway's JWT check, so only accept the service role.
+    const authorization = req.headers.get('Authorization') || '';
+    if (!timingSafeEqual(authorization, `Bearer ${supabaseKey}`)) {
+      return jsonResponse({ error: 'Service role key required' }, 401);
+    }
+
+    const github = createGitHubClient({
+      token: Deno.env.get('GITHUB_TOKEN'),
+      baseUrl: Deno.env.get('GITHUB_API_URL') || GITHUB_API_URL,
+    });
+
+    const summary = await releaseStaleClaims(createClaimStore(supabase), github);
+    console.log('Checked claims:', summary);
+
+    return jsonResponse(summary, 200);
+  } catch (error) {
+    console.error('Claim release error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+function createClaimStore(supabase: SupabaseClient): ClaimStore {
+  return {
+    async listClaimedTasks() {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, difficulty, github_issue_url, claimed_by, claimed_at, claim_warned_at')
+        .eq('status', 'in-progress')
+        .not('claimed_by', 'is', null)
+        .not('claimed_at', 'is', null);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async listExpiryRules() {
+      const { data, error } = await supabase
+        .from('claim_expiry_rules')
+        .select('difficulty, expires_after_days, warn_before_days');
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async markWarned(id, at) {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ claim_warned_at: at.toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    async releaseClaim(id, claimedBy, state) {
+      const { data, error } = await supabase
+        .from('tasks')
+        .update(state)
+        .eq('id', id)
+        .eq('status', 'in-progress')
+        .eq('claimed_by', claimedBy)
+        .select('id');
+
+      if (error) throw error;
+      return (data ?? []).length > 0;
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { createGitHubClient, GITHUB_API_URL } from '../_shared/githubClient.ts';
+import { syncRepositoryIssues, type TaskSyncStore } from '../_shared/syncIssues.ts';
+import { diffDependencies } from '../_shared/taskDependencies.ts';
+import { timingSafeEqual } from '../_shared/webhookSignature.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const DEFAULT_REPOSITORY = 'jasonetorres/torctoberfest';
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // The anon key also passes the gateway's JWT check, so only accept the service role.
+    const authorization = req.headers.get('Authorization') || '';
+    if (!timingSafeEqual(authorization, `Bearer ${supabaseKey}`)) {
+      return jsonResponse({ error: 'Service role key required' }, 401);
+    }
+
+    const { repository = Deno.env.get('GITHUB_REPOSITORY') || DEFAULT_REPOSITORY } =
+      req.headers.get('Content-Type')?.includes('application/json') ? await req.json() : {};
+
+    const { data: registered, error } = await supabase
+      .from('repositories')
+      .select('id')
+      .eq('full_name', repository)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!registered) {
+      return jsonResponse({ error: `Repository ${repository} is not registered` }, 404);
+    }
+
+    const github = createGitHubClient({
+      token: Deno.env.get('GITHUB_TOKEN'),
+      baseUrl: Deno.env.get('GITHUB_API_URL') || GITHUB_API_URL,
+    });
+
+    const summary = await syncRepositoryIssues(github, createTaskStore(supabase), repository);
+    console.log('Synced issues:', summary);
+
+    return jsonResponse(summary, 200);
+  } catch (error) {
+    console.error('Sync error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+function createTaskStore(supabase: SupabaseClient): TaskSyncStore {
+  return {
+    async listLabelMappings() {
+      const { data, error } = await supabase
+        .from('label_mappings')
+        .select('kind, value, alias, priority, is_fallback');
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async listTasks(issueUrlPrefix) {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, github_issue_url, status, claimed_by')
+        .like('github_issue_url', `${issueUrlPrefix.replace(/[%_\\]/g, '\\$&')}%`);
+
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async upsertTasks(tasks) {
+      const { error } = await supabase
+        .from('tasks')
+        .upsert(tasks, { onConflict: 'github_issue_url' });
+
+      if (error) throw error;
+    },
+
+    async updateTask(id, state) {
+      const { error } = await supabase
+        .from('tasks')
+        .update(state)
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+
+    async replaceDependencies(issueUrl, dependencies) {
+      const { data: task, error } = await supabase
+        .from('tasks')
+        .select('id')
+        .eq('github_issue_url', issueUrl)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!task) return;
+
+      const { data: current, error: listError } = await supabase
+        .from('task_dependencies')
+        .select('id, kind, issue_url')
+        .eq('task_id', task.id);
+
+      if (listError) throw listError;
+
+      const { removed, added } = diffDependencies(current ?? [], dependencies);
+      if (removed.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('task_dependencies')
+          .delete()
+          .in('id', removed);
+
+        if (deleteError) throw deleteError;
+      }
+      if (added.length > 0) {
+        const { error: insertError } = await supabase
+          .from('task_dependencies')
+          .insert(added.map(dependency => ({ ...dependency, task_id: task.id })));
+
+        if (insertError) throw insertError;
+      }
+    },
+  };
+}
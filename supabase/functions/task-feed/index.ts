@@ -0,0 +1,81 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  FEED_COLUMNS,
+  FEED_CONTENT_TYPES,
+  FEED_SIZE,
+  feedParams,
+  parseFeedRequest,
+  renderTaskFeed,
+  type FeedTask,
+} from '../_shared/taskFeed.ts';
+import { applyTaskFilters, applyTaskSort } from '../_shared/taskFilters.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const siteUrl = Deno.env.get('SITE_URL');
+    if (!siteUrl) {
+      return jsonResponse({ error: 'SITE_URL is not configured' }, 500);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    // Feeds are public, so read through RLS like any visitor of the board.
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { format, filters } = parseFeedRequest(new URL(req.url).searchParams);
+    const query = applyTaskFilters(supabase.from('tasks').select(FEED_COLUMNS), filters);
+    const { data, error } = await applyTaskSort(query, filters.sort)
+      .limit(FEED_SIZE)
+      .returns<FeedTask[]>();
+
+    if (error) throw error;
+
+    const body = renderTaskFeed(format, data ?? [], {
+      siteUrl,
+      feedUrl: `${supabaseUrl}/functions/v1/task-feed?${feedParams(filters, format)}`,
+      filters,
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': FEED_CONTENT_TYPES[format],
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Task feed error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
@@ -0,0 +1,27 @@
+/*
+  # Record GitHub Webhook Deliveries
+
+  1. New Tables
+    - `webhook_deliveries`
+      - `delivery_id` (text, primary key) - Value of the `X-GitHub-Delivery` header
+      - `event` (text) - Value of the `X-GitHub-Event` header
+      - `received_at` (timestamptz) - When the delivery was accepted
+
+  2. Security
+    - Enable RLS on `webhook_deliveries` table
+    - No policies: only the service role (used by the github-webhook function) can read or write
+
+  3. Notes
+    - The primary key makes a replayed delivery fail with a unique violation,
+      which the webhook treats as "already processed"
+*/
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  delivery_id text PRIMARY KEY,
+  event text NOT NULL,
+  received_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at DESC);
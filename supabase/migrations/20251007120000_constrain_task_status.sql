@@ -0,0 +1,22 @@
+/*
+  # Constrain Task Status Values
+
+  1. Changes
+    - `tasks.status` is limited to the states defined by the shared task status
+      state machine (`supabase/functions/_shared/taskStatus.ts`):
+      open, in-progress, completed, archived
+    - `archived` is used for issues that were deleted, transferred to another
+      repository, or closed as not planned
+
+  2. Notes
+    - Any unexpected status already stored is reset to `open` before the
+      constraint is added
+*/
+
+UPDATE tasks
+SET status = 'open'
+WHERE status NOT IN ('open', 'in-progress', 'completed', 'archived');
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_status_check
+  CHECK (status IN ('open', 'in-progress', 'completed', 'archived'));
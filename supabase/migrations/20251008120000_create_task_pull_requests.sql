@@ -0,0 +1,55 @@
+/*
+  # Link Pull Requests to Tasks
+
+  1. New Tables
+    - `task_pull_requests`
+      - `id` (uuid, primary key) - Unique identifier for each link
+      - `task_id` (uuid) - Task the pull request closes
+      - `number` (integer) - Pull request number
+      - `html_url` (text) - Link to the pull request
+      - `author` (text) - GitHub username of the pull request author
+      - `state` (text) - Pull request state (open, closed)
+      - `merged` (boolean) - Whether the pull request was merged
+      - `created_at` (timestamptz) - When the link was first recorded
+      - `updated_at` (timestamptz) - When the pull request was last updated
+
+  2. Changes
+    - `tasks.status` gains the `in-review` state, used while a linked pull
+      request is open
+
+  3. Security
+    - Enable RLS on `task_pull_requests` table
+    - Add policy for public read access (anyone can view linked pull requests)
+
+  4. Indexes
+    - Unique index on (task_id, number) so webhook deliveries upsert
+*/
+
+CREATE TABLE IF NOT EXISTS task_pull_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  number integer NOT NULL,
+  html_url text NOT NULL,
+  author text NOT NULL,
+  state text NOT NULL DEFAULT 'open' CHECK (state IN ('open', 'closed')),
+  merged boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE task_pull_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view task pull requests"
+  ON task_pull_requests
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_pull_requests_task_number ON task_pull_requests(task_id, number);
+CREATE INDEX IF NOT EXISTS idx_task_pull_requests_author ON task_pull_requests(author);
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_status_check
+  CHECK (status IN ('open', 'in-progress', 'in-review', 'completed', 'archived'));
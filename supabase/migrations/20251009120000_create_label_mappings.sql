@@ -0,0 +1,78 @@
+/*
+  # Configurable Label Mappings
+
+  1. New Tables
+    - `label_mappings`
+      - `id` (uuid, primary key) - Unique identifier for each mapping
+      - `kind` (text) - Which task field the label sets (difficulty, category)
+      - `value` (text) - Task difficulty or category the label maps to
+      - `alias` (text) - GitHub label name, normalized (lowercase, spaces as dashes)
+      - `priority` (integer) - Higher priority wins when an issue has several matching labels
+      - `is_fallback` (boolean) - Value used when no label of this kind matches
+      - `created_at` (timestamptz) - When the mapping was created
+
+  2. Changes
+    - `tasks.difficulty` and `tasks.category` are limited to the values defined in
+      `supabase/functions/_shared/labelMapping.ts`
+
+  3. Security
+    - Enable RLS on `label_mappings` table
+    - Add policy for public read access (the task board lists them as filters)
+
+  4. Seed Data
+    - Default aliases for the labels used across TORC repositories, with
+      `beginner` and `utility` as fallbacks
+*/
+
+CREATE TABLE IF NOT EXISTS label_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('difficulty', 'category')),
+  value text NOT NULL,
+  alias text NOT NULL,
+  priority integer NOT NULL DEFAULT 0,
+  is_fallback boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (kind = 'difficulty' AND value IN ('good-first-issue', 'beginner', 'intermediate', 'advanced'))
+    OR (kind = 'category' AND value IN ('utility', 'documentation', 'testing', 'infrastructure', 'feature'))
+  )
+);
+
+ALTER TABLE label_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view label mappings"
+  ON label_mappings
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_label_mappings_kind_alias ON label_mappings(kind, alias);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_label_mappings_fallback ON label_mappings(kind) WHERE is_fallback;
+
+INSERT INTO label_mappings (kind, value, alias, priority, is_fallback) VALUES
+  ('difficulty', 'good-first-issue', 'good-first-issue', 40, false),
+  ('difficulty', 'good-first-issue', 'first-timers-only', 40, false),
+  ('difficulty', 'beginner', 'beginner', 30, true),
+  ('difficulty', 'beginner', 'level:easy', 30, false),
+  ('difficulty', 'intermediate', 'intermediate', 20, false),
+  ('difficulty', 'intermediate', 'level:medium', 20, false),
+  ('difficulty', 'advanced', 'advanced', 10, false),
+  ('difficulty', 'advanced', 'level:hard', 10, false),
+  ('category', 'utility', 'utility', 10, true),
+  ('category', 'documentation', 'documentation', 20, false),
+  ('category', 'documentation', 'docs', 20, false),
+  ('category', 'testing', 'testing', 20, false),
+  ('category', 'testing', 'tests', 20, false),
+  ('category', 'infrastructure', 'infrastructure', 20, false),
+  ('category', 'infrastructure', 'ci', 20, false),
+  ('category', 'feature', 'feature', 15, false),
+  ('category', 'feature', 'enhancement', 15, false)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_difficulty_check
+  CHECK (difficulty IN ('good-first-issue', 'beginner', 'intermediate', 'advanced'));
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_category_check
+  CHECK (category IN ('utility', 'documentation', 'testing', 'infrastructure', 'feature'));
@@ -0,0 +1,42 @@
+/*
+  # Structured Estimated Time
+
+  1. Changes to `tasks`
+    - `estimated_minutes_min` (integer, optional) - Lower bound of the estimate in minutes
+    - `estimated_minutes_max` (integer, optional) - Upper bound of the estimate in minutes
+    - `estimated_time` keeps the raw text from the issue and becomes optional;
+      issues without an estimate no longer get a made-up default
+
+  2. Indexes
+    - Index on estimated_minutes_max for time budget filters
+    - Index on estimated_minutes_min for "shortest first" sorting
+
+  3. Data
+    - Existing "N hours" and "N-M hours" estimates are converted to minutes.
+      Other formats are filled in the next time the webhook sees the issue.
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimated_minutes_min integer;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS estimated_minutes_max integer;
+
+ALTER TABLE tasks ALTER COLUMN estimated_time DROP NOT NULL;
+ALTER TABLE tasks ALTER COLUMN estimated_time DROP DEFAULT;
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_estimated_minutes_check
+  CHECK (estimated_minutes_min IS NULL OR estimated_minutes_max IS NULL OR estimated_minutes_min <= estimated_minutes_max);
+
+UPDATE tasks
+SET
+  estimated_minutes_min = (m[1])::numeric * 60,
+  estimated_minutes_max = COALESCE(m[2], m[1])::numeric * 60
+FROM (
+  SELECT id AS task_id, regexp_match(estimated_time, '^\s*(\d+(?:\.\d+)?)\s*(?:-\s*(\d+(?:\.\d+)?))?\s*hours?\s*$', 'i') AS m
+  FROM tasks
+) parsed
+WHERE tasks.id = parsed.task_id
+  AND parsed.m IS NOT NULL
+  AND tasks.estimated_minutes_min IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_estimated_minutes_max ON tasks(estimated_minutes_max);
+CREATE INDEX IF NOT EXISTS idx_tasks_estimated_minutes_min ON tasks(estimated_minutes_min);
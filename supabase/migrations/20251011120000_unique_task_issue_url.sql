@@ -0,0 +1,26 @@
+/*
+  # Unique GitHub Issue URL per Task
+
+  1. Changes
+    - `tasks.github_issue_url` becomes unique so the sync-issues backfill can
+      upsert by issue URL. Tasks without an issue (NULL) are unaffected.
+
+  2. Data
+    - If the webhook ever created two tasks for the same issue, only the most
+      recently updated one is kept
+*/
+
+DELETE FROM tasks
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT
+      id,
+      row_number() OVER (PARTITION BY github_issue_url ORDER BY updated_at DESC, created_at DESC) AS position
+    FROM tasks
+    WHERE github_issue_url IS NOT NULL
+  ) ranked
+  WHERE ranked.position > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_github_issue_url ON tasks(github_issue_url);
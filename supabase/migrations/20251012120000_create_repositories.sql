@@ -0,0 +1,69 @@
+/*
+  # Multi-Repository Support
+
+  1. New Tables
+    - `repositories`
+      - `id` (uuid, primary key) - Unique identifier for each repository
+      - `full_name` (text, unique) - GitHub `owner/repo`
+      - `display_name` (text) - Name shown on the task board
+      - `description` (text, optional) - Short description shown when grouping
+      - `active` (boolean) - Whether the webhook accepts events for this repository
+      - `created_at` (timestamptz) - When the repository was registered
+
+  2. Changes to `tasks`
+    - `repository` (text) - `full_name` of the repository the task belongs to
+
+  3. Security
+    - Enable RLS on `repositories` table
+    - Add policy for public read access (the task board lists them as filters)
+
+  4. Data
+    - Registers `jasonetorres/torctoberfest`
+    - Existing tasks get their repository from `github_issue_url`, or
+      `jasonetorres/torctoberfest` when they have no issue yet
+*/
+
+CREATE TABLE IF NOT EXISTS repositories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name text NOT NULL UNIQUE,
+  display_name text NOT NULL,
+  description text,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE repositories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view repositories"
+  ON repositories
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO repositories (full_name, display_name, description)
+VALUES ('jasonetorres/torctoberfest', 'torc toolbelt', 'Utilities, scripts, and tools for developers and robotics enthusiasts')
+ON CONFLICT (full_name) DO NOTHING;
+
+INSERT INTO repositories (full_name, display_name)
+SELECT DISTINCT substring(github_issue_url FROM '^https://github\.com/([^/]+/[^/]+)/issues/'), substring(github_issue_url FROM '^https://github\.com/[^/]+/([^/]+)/issues/')
+FROM tasks
+WHERE github_issue_url ~ '^https://github\.com/[^/]+/[^/]+/issues/'
+ON CONFLICT (full_name) DO NOTHING;
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS repository text;
+
+UPDATE tasks
+SET repository = COALESCE(
+  substring(github_issue_url FROM '^https://github\.com/([^/]+/[^/]+)/issues/'),
+  'jasonetorres/torctoberfest'
+)
+WHERE repository IS NULL;
+
+ALTER TABLE tasks ALTER COLUMN repository SET NOT NULL;
+ALTER TABLE tasks ALTER COLUMN repository SET DEFAULT 'jasonetorres/torctoberfest';
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_repository_fkey
+  FOREIGN KEY (repository) REFERENCES repositories(full_name) ON UPDATE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_repository ON tasks(repository);
@@ -0,0 +1,45 @@
+/*
+  # Restrict Task Claims to the Signed-In Contributor
+
+  1. New Functions
+    - `github_login()` - GitHub username of the signed-in user, read from the
+      JWT `user_metadata.user_name` set by Supabase's GitHub OAuth provider
+
+  2. Security
+    - Replace the "Authenticated users can claim tasks" policy, which allowed
+      any signed-in user to change any column of any task
+    - Add policy for claiming: an open, unclaimed task may be claimed by the
+      signed-in user for themselves
+    - Add policy for releasing: a user may release only their own in-progress claim
+    - Authenticated users may only update the `claimed_by` and `status` columns
+
+  3. Notes
+    - The service role used by Edge Functions bypasses RLS and is unaffected
+*/
+
+CREATE OR REPLACE FUNCTION github_login()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth.jwt() -> 'user_metadata' ->> 'user_name';
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can claim tasks" ON tasks;
+
+CREATE POLICY "Users can claim open tasks"
+  ON tasks
+  FOR UPDATE
+  TO authenticated
+  USING (status = 'open' AND claimed_by IS NULL)
+  WITH CHECK (status = 'in-progress' AND claimed_by = github_login());
+
+CREATE POLICY "Users can release their own claims"
+  ON tasks
+  FOR UPDATE
+  TO authenticated
+  USING (status = 'in-progress' AND claimed_by = github_login())
+  WITH CHECK (status = 'open' AND claimed_by IS NULL);
+
+REVOKE UPDATE ON tasks FROM authenticated;
+GRANT UPDATE (claimed_by, status) ON tasks TO authenticated;
@@ -0,0 +1,70 @@
+/*
+  # Claim Expiry
+
+  1. New Tables
+    - `claim_expiry_rules`
+      - `difficulty` (text, primary key) - Task difficulty the rule applies to
+      - `expires_after_days` (integer) - How long a claim lasts
+      - `warn_before_days` (integer) - How long before expiry the claimant is warned
+
+  2. Changes to `tasks`
+    - `claimed_at` (timestamptz, optional) - When the current claim was made
+    - `claim_warned_at` (timestamptz, optional) - When the claimant was warned about expiry
+    - Trigger `tasks_track_claim` sets `claimed_at` whenever `claimed_by`
+      changes and clears `claim_warned_at`
+
+  3. Security
+    - Enable RLS on `claim_expiry_rules` table
+    - Add policy for public read access (the task board shows time left on claims)
+
+  4. Data
+    - Existing claims are treated as made now
+*/
+
+CREATE TABLE IF NOT EXISTS claim_expiry_rules (
+  difficulty text PRIMARY KEY CHECK (difficulty IN ('good-first-issue', 'beginner', 'intermediate', 'advanced')),
+  expires_after_days integer NOT NULL CHECK (expires_after_days > 0),
+  warn_before_days integer NOT NULL DEFAULT 2 CHECK (warn_before_days >= 0)
+);
+
+ALTER TABLE claim_expiry_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view claim expiry rules"
+  ON claim_expiry_rules
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO claim_expiry_rules (difficulty, expires_after_days, warn_before_days) VALUES
+  ('good-first-issue', 7, 2),
+  ('beginner', 7, 2),
+  ('intermediate', 14, 3),
+  ('advanced', 21, 4)
+ON CONFLICT (difficulty) DO NOTHING;
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS claim_warned_at timestamptz;
+
+UPDATE tasks SET claimed_at = now() WHERE claimed_by IS NOT NULL AND claimed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION track_task_claim()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.claimed_by IS DISTINCT FROM OLD.claimed_by THEN
+    NEW.claimed_at := CASE WHEN NEW.claimed_by IS NULL THEN NULL ELSE now() END;
+    NEW.claim_warned_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_track_claim ON tasks;
+
+CREATE TRIGGER tasks_track_claim
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION track_task_claim();
+
+CREATE INDEX IF NOT EXISTS idx_tasks_claimed_at ON tasks(claimed_at) WHERE claimed_by IS NOT NULL;
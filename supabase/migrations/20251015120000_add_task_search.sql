@@ -0,0 +1,47 @@
+/*
+  # Task Full-Text Search
+
+  1. Changes to `tasks`
+    - `search_vector` (tsvector) - Weighted search document: title (A),
+      labels (B), description (C), English stemming
+    - Trigger `tasks_update_search_vector` keeps it in sync on insert and
+      whenever the title, description or labels change
+    - GIN index `idx_tasks_search_vector` for `@@` queries
+
+  2. Data
+    - Existing tasks are indexed
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION task_search_vector(title text, description text, labels text[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(labels, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION update_task_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.search_vector := task_search_vector(NEW.title, NEW.description, NEW.labels);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_update_search_vector ON tasks;
+
+CREATE TRIGGER tasks_update_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, labels ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_task_search_vector();
+
+UPDATE tasks SET search_vector = task_search_vector(title, description, labels);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON tasks USING gin(search_vector);
@@ -0,0 +1,19 @@
+/*
+  # Publish Task Changes
+
+  1. Realtime
+    - Add `tasks` to the `supabase_realtime` publication. The task board applies
+      inserts, updates and deletes from this feed to its local state instead of
+      refetching.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tasks'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE tasks;
+  END IF;
+END;
+$$;
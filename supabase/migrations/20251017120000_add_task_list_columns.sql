@@ -0,0 +1,17 @@
+/*
+  # Task List Columns
+
+  1. Changes to `tasks`
+    - `description_preview` (text, generated) - First 280 characters of the
+      description. The task grid loads this instead of the full description.
+
+  2. Indexes
+    - Composite indexes matching the board's sort orders, so keyset pages
+      (`created_at, id` and `updated_at, id`) are index range scans
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS description_preview text GENERATED ALWAYS AS (left(description, 280)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_created_at_id ON tasks(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_updated_at_id ON tasks(updated_at DESC, id DESC);
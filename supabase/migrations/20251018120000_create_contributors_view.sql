@@ -0,0 +1,71 @@
+/*
+  # Contributors
+
+  1. New Tables
+    - `difficulty_points`
+      - `difficulty` (text, primary key) - Task difficulty
+      - `points` (integer) - Points a completed task of this difficulty is worth
+
+  2. New Views
+    - `contributors` - One row per GitHub login that ever claimed a task:
+      - `login` (text) - GitHub username (`tasks.claimed_by`)
+      - `points` (integer) - Sum of `difficulty_points` over completed tasks
+      - `completed_count` (integer) - Completed tasks
+      - `active_count` (integer) - Tasks in progress or in review
+      - `last_active_at` (timestamptz) - Last update to any of their tasks
+      - `rank` (integer) - Leaderboard position by points, then completed tasks;
+        ties share a rank
+
+  3. Security
+    - Enable RLS on `difficulty_points` table
+    - Add policy for public read access
+    - The view runs with the caller's permissions (`security_invoker`), so the
+      `tasks` policies apply
+*/
+
+CREATE TABLE IF NOT EXISTS difficulty_points (
+  difficulty text PRIMARY KEY CHECK (difficulty IN ('good-first-issue', 'beginner', 'intermediate', 'advanced')),
+  points integer NOT NULL CHECK (points >= 0)
+);
+
+ALTER TABLE difficulty_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view difficulty points"
+  ON difficulty_points
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO difficulty_points (difficulty, points) VALUES
+  ('good-first-issue', 1),
+  ('beginner', 2),
+  ('intermediate', 3),
+  ('advanced', 5)
+ON CONFLICT (difficulty) DO NOTHING;
+
+CREATE OR REPLACE VIEW contributors
+WITH (security_invoker = true)
+AS
+SELECT
+  login,
+  points,
+  completed_count,
+  active_count,
+  last_active_at,
+  rank() OVER (ORDER BY points DESC, completed_count DESC)::integer AS rank
+FROM (
+  SELECT
+    t.claimed_by AS login,
+    coalesce(sum(p.points) FILTER (WHERE t.status = 'completed'), 0)::integer AS points,
+    count(*) FILTER (WHERE t.status = 'completed')::integer AS completed_count,
+    count(*) FILTER (WHERE t.status IN ('in-progress', 'in-review'))::integer AS active_count,
+    max(t.updated_at) AS last_active_at
+  FROM tasks t
+  LEFT JOIN difficulty_points p ON p.difficulty = t.difficulty
+  WHERE t.claimed_by IS NOT NULL
+  GROUP BY t.claimed_by
+) totals;
+
+GRANT SELECT ON contributors TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_claimed_by ON tasks(claimed_by) WHERE claimed_by IS NOT NULL;
@@ -0,0 +1,50 @@
+/*
+  # Hacktoberfest Progress
+
+  1. New Tables
+    - `events`
+      - `id` (uuid, primary key) - Unique identifier for each event
+      - `slug` (text, unique) - Short name, e.g. `hacktoberfest-2025`
+      - `name` (text) - Display name
+      - `starts_at` (timestamptz) - Pull requests opened from this moment count
+      - `ends_at` (timestamptz) - Pull requests opened from this moment no longer count
+      - `pr_goal` (integer) - Merged pull requests needed to complete the event
+      - `created_at` (timestamptz) - When the event was added
+
+  2. Changes to `task_pull_requests`
+    - `opened_at` (timestamptz, optional) - When the pull request was opened on GitHub
+    - `merged_at` (timestamptz, optional) - When the pull request was merged
+
+  3. Security
+    - Enable RLS on `events` table
+    - Add policy for public read access (the progress tracker shows the event window)
+
+  4. Data
+    - Hacktoberfest 2025: October 2025 (UTC), goal of 4 pull requests
+*/
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text UNIQUE NOT NULL,
+  name text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  pr_goal integer NOT NULL DEFAULT 4 CHECK (pr_goal > 0),
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view events"
+  ON events
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+INSERT INTO events (slug, name, starts_at, ends_at, pr_goal) VALUES
+  ('hacktoberfest-2025', 'Hacktoberfest 2025', '2025-10-01T00:00:00Z', '2025-11-01T00:00:00Z', 4)
+ON CONFLICT (slug) DO NOTHING;
+
+ALTER TABLE task_pull_requests ADD COLUMN IF NOT EXISTS opened_at timestamptz;
+ALTER TABLE task_pull_requests ADD COLUMN IF NOT EXISTS merged_at timestamptz;
@@ -0,0 +1,107 @@
+/*
+  # Task Statistics
+
+  1. Changes to `tasks`
+    - `completed_at` (timestamptz, optional) - When the task was completed
+    - Trigger `tasks_track_completion` sets `completed_at` when a task moves to
+      `completed` and clears it when the task is reopened
+
+  2. New Functions
+    - `task_stats()` - Live numbers for the landing page, as JSON:
+      - `open_by_difficulty` - Open tasks per difficulty
+      - `completed_this_week` - Tasks completed since Monday (UTC)
+      - `active_contributors` - Logins with a task in progress or in review, or
+        one completed in the last 7 days
+      - `median_hours_to_complete` - Median time from claim to completion over
+        the last 90 days, or null
+      - `completed_per_day` - Completions per day for the last 14 days, oldest first
+
+  3. Security
+    - `task_stats()` runs with the caller's permissions, so the `tasks`
+      policies apply
+
+  4. Data
+    - Tasks that are already completed are treated as completed at their last update
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+UPDATE tasks SET completed_at = updated_at WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION track_task_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_track_completion ON tasks;
+
+CREATE TRIGGER tasks_track_completion
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION track_task_completion();
+
+CREATE INDEX IF NOT EXISTS idx_tasks_completed_at ON tasks(completed_at) WHERE completed_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION task_stats()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT jsonb_build_object(
+    'open_by_difficulty', (
+      SELECT coalesce(jsonb_object_agg(difficulty, total), '{}'::jsonb)
+      FROM (
+        SELECT difficulty, count(*) AS total
+        FROM tasks
+        WHERE status = 'open'
+        GROUP BY difficulty
+      ) open_tasks
+    ),
+    'completed_this_week', (
+      SELECT count(*)
+      FROM tasks
+      WHERE completed_at >= date_trunc('week', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    ),
+    'active_contributors', (
+      SELECT count(DISTINCT claimed_by)
+      FROM tasks
+      WHERE claimed_by IS NOT NULL
+        AND (status IN ('in-progress', 'in-review') OR completed_at >= now() - interval '7 days')
+    ),
+    'median_hours_to_complete', (
+      SELECT round((percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY extract(epoch FROM completed_at - claimed_at)
+      ) / 3600)::numeric, 1)
+      FROM tasks
+      WHERE completed_at >= now() - interval '90 days'
+        AND claimed_at IS NOT NULL
+        AND completed_at >= claimed_at
+    ),
+    'completed_per_day', (
+      SELECT jsonb_agg(coalesce(completions.total, 0) ORDER BY day)
+      FROM generate_series(
+        date_trunc('day', now() AT TIME ZONE 'UTC') - interval '13 days',
+        date_trunc('day', now() AT TIME ZONE 'UTC'),
+        interval '1 day'
+      ) AS day
+      LEFT JOIN (
+        SELECT (completed_at AT TIME ZONE 'UTC')::date AS completed_on, count(*) AS total
+        FROM tasks
+        WHERE completed_at >= now() - interval '14 days'
+        GROUP BY 1
+      ) completions ON completions.completed_on = day::date
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION task_stats() TO anon, authenticated;
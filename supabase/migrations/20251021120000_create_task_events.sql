@@ -0,0 +1,141 @@
+/*
+  # Task History
+
+  1. New Tables
+    - `task_events`
+      - `id` (uuid, primary key) - Unique identifier for each event
+      - `task_id` (uuid) - Task that changed
+      - `event_type` (text) - `created`, `status_changed`, `claimed`,
+        `released` or `labels_changed`
+      - `actor` (text, optional) - GitHub username of the signed-in user who
+        made the change; null for changes made by Edge Functions (webhook, sync)
+      - `from_value` (text, optional) - Previous status or claimant
+      - `to_value` (text, optional) - New status or claimant
+      - `labels_added` (text[]) - Labels added, for `labels_changed`
+      - `labels_removed` (text[]) - Labels removed, for `labels_changed`
+      - `created_at` (timestamptz) - When the change happened
+
+  2. Triggers on `tasks`
+    - `tasks_set_updated_at` sets `updated_at` whenever a row changes
+    - `tasks_record_events` writes a `task_events` row on insert and on every
+      status, claim or label change
+
+  3. Security
+    - Enable RLS on `task_events` table
+    - Add policy for public read access
+    - Events are only written by the trigger (`SECURITY DEFINER`); nobody can
+      insert, change or delete them through the API
+
+  4. Data
+    - Existing tasks get a `created` event, plus `claimed` and `status_changed`
+      events for current claims and completions; values that were never
+      recorded are left null
+*/
+
+CREATE TABLE IF NOT EXISTS task_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed', 'claimed', 'released', 'labels_changed')),
+  actor text,
+  from_value text,
+  to_value text,
+  labels_added text[] NOT NULL DEFAULT '{}',
+  labels_removed text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE task_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view task events"
+  ON task_events
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_task_events_task_created ON task_events(task_id, created_at);
+
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW IS DISTINCT FROM OLD THEN
+    NEW.updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_set_updated_at ON tasks;
+
+CREATE TRIGGER tasks_set_updated_at
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE OR REPLACE FUNCTION record_task_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_actor text := github_login();
+  added text[];
+  removed text[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO task_events (task_id, event_type, actor, to_value)
+    VALUES (NEW.id, 'created', current_actor, NEW.status);
+
+    IF NEW.claimed_by IS NOT NULL THEN
+      INSERT INTO task_events (task_id, event_type, actor, to_value)
+      VALUES (NEW.id, 'claimed', current_actor, NEW.claimed_by);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- A claim handed from one contributor to another is a release and a claim.
+  IF NEW.claimed_by IS DISTINCT FROM OLD.claimed_by THEN
+    IF OLD.claimed_by IS NOT NULL THEN
+      INSERT INTO task_events (task_id, event_type, actor, from_value)
+      VALUES (NEW.id, 'released', current_actor, OLD.claimed_by);
+    END IF;
+    IF NEW.claimed_by IS NOT NULL THEN
+      INSERT INTO task_events (task_id, event_type, actor, to_value)
+      VALUES (NEW.id, 'claimed', current_actor, NEW.claimed_by);
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO task_events (task_id, event_type, actor, from_value, to_value)
+    VALUES (NEW.id, 'status_changed', current_actor, OLD.status, NEW.status);
+  END IF;
+
+  added := ARRAY(SELECT unnest(NEW.labels) EXCEPT SELECT unnest(OLD.labels));
+  removed := ARRAY(SELECT unnest(OLD.labels) EXCEPT SELECT unnest(NEW.labels));
+  IF cardinality(added) > 0 OR cardinality(removed) > 0 THEN
+    INSERT INTO task_events (task_id, event_type, actor, labels_added, labels_removed)
+    VALUES (NEW.id, 'labels_changed', current_actor, added, removed);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_record_events ON tasks;
+
+CREATE TRIGGER tasks_record_events
+  AFTER INSERT OR UPDATE OF status, claimed_by, labels ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION record_task_events();
+
+INSERT INTO task_events (task_id, event_type, created_at)
+SELECT id, 'created', created_at FROM tasks;
+
+INSERT INTO task_events (task_id, event_type, to_value, created_at)
+SELECT id, 'claimed', claimed_by, coalesce(claimed_at, updated_at) FROM tasks WHERE claimed_by IS NOT NULL;
+
+INSERT INTO task_events (task_id, event_type, to_value, created_at)
+SELECT id, 'status_changed', 'completed', completed_at FROM tasks WHERE completed_at IS NOT NULL;
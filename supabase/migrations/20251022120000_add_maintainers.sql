@@ -0,0 +1,106 @@
+/*
+  # Maintainers
+
+  1. New Tables
+    - `maintainers`
+      - `login` (text, primary key) - GitHub username of a maintainer
+      - `created_at` (timestamptz) - When the maintainer was added
+
+  2. New Functions
+    - `is_maintainer()` - Whether the signed-in user's GitHub username is in
+      `maintainers` (case-insensitive)
+
+  3. Security
+    - Enable RLS on `maintainers` table; only maintainers can list maintainers
+    - Add policy for maintainers to create tasks
+    - Add policy for maintainers to update any task (edit, archive, relabel)
+    - Authenticated users may insert tasks and update their content columns;
+      the policies limit both to maintainers
+    - Trigger `tasks_guard_content` rejects content changes from signed-in users
+      who are not maintainers, so claiming a task cannot also edit it
+
+  4. Notes
+    - Add maintainers with the SQL editor or service role, e.g.
+      `INSERT INTO maintainers (login) VALUES ('octocat');`
+*/
+
+CREATE TABLE IF NOT EXISTS maintainers (
+  login text PRIMARY KEY,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_maintainers_login_lower ON maintainers(lower(login));
+
+ALTER TABLE maintainers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_maintainer()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM maintainers WHERE lower(login) = lower(github_login())
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_maintainer() TO anon, authenticated;
+
+CREATE POLICY "Maintainers can view maintainers"
+  ON maintainers
+  FOR SELECT
+  TO authenticated
+  USING (is_maintainer());
+
+CREATE POLICY "Maintainers can create tasks"
+  ON tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_maintainer());
+
+CREATE POLICY "Maintainers can edit tasks"
+  ON tasks
+  FOR UPDATE
+  TO authenticated
+  USING (is_maintainer())
+  WITH CHECK (is_maintainer());
+
+GRANT INSERT ON tasks TO authenticated;
+GRANT UPDATE (
+  title,
+  description,
+  difficulty,
+  category,
+  labels,
+  estimated_time,
+  estimated_minutes_min,
+  estimated_minutes_max,
+  repository
+) ON tasks TO authenticated;
+
+CREATE OR REPLACE FUNCTION guard_task_content()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated'
+    AND (NEW.title, NEW.description, NEW.difficulty, NEW.category, NEW.labels, NEW.estimated_time,
+         NEW.estimated_minutes_min, NEW.estimated_minutes_max, NEW.repository)
+      IS DISTINCT FROM
+        (OLD.title, OLD.description, OLD.difficulty, OLD.category, OLD.labels, OLD.estimated_time,
+         OLD.estimated_minutes_min, OLD.estimated_minutes_max, OLD.repository)
+    AND NOT is_maintainer()
+  THEN
+    RAISE EXCEPTION 'Only maintainers can edit tasks' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_guard_content ON tasks;
+
+CREATE TRIGGER tasks_guard_content
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_task_content();
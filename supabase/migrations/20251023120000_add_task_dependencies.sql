@@ -0,0 +1,134 @@
+/*
+  # Task Dependencies and Epics
+
+  1. New Tables
+    - `task_dependencies`
+      - `id` (uuid, primary key) - Unique identifier for each link
+      - `task_id` (uuid) - Task whose issue body contains the link
+      - `kind` (text) - `blocked_by` ("Depends on #12": the task waits for the
+        linked issue) or `subtask` (a task list item of an epic)
+      - `issue_url` (text) - The linked issue. Kept as a URL so links to issues
+        that are not tasks yet start counting once they are
+      - `created_at` (timestamptz) - When the link was recorded
+
+  2. Changes to `tasks`
+    - `blocked` (boolean) - Whether a `blocked_by` issue is a task that is not
+      completed or archived yet. Stored so the board can filter on it and
+      realtime changes carry it
+
+  3. New Functions
+    - `refresh_task_blocked(uuid)` - Recomputes `blocked` for one task
+    - Trigger `task_dependencies_refresh_blocked` recomputes it when links change
+    - Trigger `tasks_refresh_dependents` recomputes it for dependent tasks when
+      a task is created, deleted, or changes status or issue URL
+
+  4. Security
+    - Enable RLS on `task_dependencies` table
+    - Add policy for public read access
+    - Links are written by the Edge Functions with the service role only
+
+  5. Notes
+    - Issue URLs are compared case-insensitively
+    - Existing issues get their links on their next edit, or by running the
+      `sync-issues` function
+*/
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS blocked boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_issue_url_lower ON tasks(lower(github_issue_url));
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('blocked_by', 'subtask')),
+  issue_url text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view task dependencies"
+  ON task_dependencies
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_dependencies_link ON task_dependencies(task_id, kind, lower(issue_url));
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_issue_url ON task_dependencies(lower(issue_url));
+
+CREATE OR REPLACE FUNCTION refresh_task_blocked(target uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE tasks
+  SET blocked = computed.blocked
+  FROM (
+    SELECT EXISTS (
+      SELECT 1
+      FROM task_dependencies d
+      JOIN tasks blocker ON lower(blocker.github_issue_url) = lower(d.issue_url)
+      WHERE d.task_id = target
+        AND d.kind = 'blocked_by'
+        AND blocker.status NOT IN ('completed', 'archived')
+    ) AS blocked
+  ) computed
+  WHERE tasks.id = target AND tasks.blocked IS DISTINCT FROM computed.blocked;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_task_blocked(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION refresh_blocked_for_dependency()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_task_blocked(OLD.task_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.task_id IS DISTINCT FROM OLD.task_id) THEN
+    PERFORM refresh_task_blocked(NEW.task_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS task_dependencies_refresh_blocked ON task_dependencies;
+
+CREATE TRIGGER task_dependencies_refresh_blocked
+  AFTER INSERT OR UPDATE OR DELETE ON task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_blocked_for_dependency();
+
+CREATE OR REPLACE FUNCTION refresh_dependent_tasks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_url text := CASE WHEN TG_OP <> 'DELETE' THEN lower(NEW.github_issue_url) END;
+  old_url text := CASE WHEN TG_OP <> 'INSERT' THEN lower(OLD.github_issue_url) END;
+  dependent uuid;
+BEGIN
+  -- Only updates of `blocked` itself follow, so this does not fire again for them.
+  FOR dependent IN
+    SELECT DISTINCT task_id
+    FROM task_dependencies
+    WHERE kind = 'blocked_by' AND lower(issue_url) IN (new_url, old_url)
+  LOOP
+    PERFORM refresh_task_blocked(dependent);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_refresh_dependents ON tasks;
+
+CREATE TRIGGER tasks_refresh_dependents
+  AFTER INSERT OR UPDATE OF status, github_issue_url OR DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_dependent_tasks();
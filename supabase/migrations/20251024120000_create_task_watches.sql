@@ -0,0 +1,47 @@
+/*
+  # Task Watchlist
+
+  1. New Tables
+    - `task_watches`
+      - `user_id` (uuid) - Signed-in user watching the task, defaults to `auth.uid()`
+      - `task_id` (uuid) - Watched task
+      - `created_at` (timestamptz) - When the task was starred
+      - Primary key (user_id, task_id)
+
+  2. Security
+    - Enable RLS on `task_watches` table
+    - Users can list, add and remove only their own watches
+
+  3. Notes
+    - Visitors who are not signed in keep their watchlist in local storage; it
+      moves into this table when they sign in
+*/
+
+CREATE TABLE IF NOT EXISTS task_watches (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, task_id)
+);
+
+ALTER TABLE task_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their watches"
+  ON task_watches
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can watch tasks"
+  ON task_watches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can unwatch tasks"
+  ON task_watches
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_task_watches_task ON task_watches(task_id);
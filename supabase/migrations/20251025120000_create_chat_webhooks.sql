@@ -0,0 +1,51 @@
+/*
+  # Chat Webhooks
+
+  1. New Tables
+    - `chat_webhooks`
+      - `id` (uuid, primary key)
+      - `name` (text) - Channel name shown in logs, e.g. "#good-first-issues"
+      - `format` (text) - Payload format: discord or slack
+      - `url` (text) - Incoming webhook URL of the channel
+      - `events` (text[]) - Events to post: created, claimed, completed
+      - `difficulties` (text[]) - Only tasks of these difficulties; empty for all
+      - `categories` (text[]) - Only tasks of these categories; empty for all
+      - `repositories` (text[]) - Only tasks of these `owner/repo`s; empty for all
+      - `active` (boolean) - Inactive channels receive nothing
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `chat_webhooks` table
+    - Only maintainers can list and manage channels; webhook URLs let anyone
+      post to the channel, so they are never readable by visitors
+    - The github-webhook Edge Function reads channels with the service role
+
+  3. Notes
+    - Messages are sent by the github-webhook Edge Function, see
+      `supabase/functions/_shared/chatNotifications.ts`
+*/
+
+CREATE TABLE IF NOT EXISTS chat_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  format text NOT NULL CHECK (format IN ('discord', 'slack')),
+  url text NOT NULL CHECK (url LIKE 'https://%'),
+  events text[] NOT NULL DEFAULT ARRAY['created', 'claimed', 'completed']
+    CHECK (events <@ ARRAY['created', 'claimed', 'completed']),
+  difficulties text[] NOT NULL DEFAULT '{}'
+    CHECK (difficulties <@ ARRAY['good-first-issue', 'beginner', 'intermediate', 'advanced']),
+  categories text[] NOT NULL DEFAULT '{}'
+    CHECK (categories <@ ARRAY['utility', 'documentation', 'testing', 'infrastructure', 'feature']),
+  repositories text[] NOT NULL DEFAULT '{}',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE chat_webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Maintainers can manage chat webhooks"
+  ON chat_webhooks
+  FOR ALL
+  TO authenticated
+  USING (is_maintainer())
+  WITH CHECK (is_maintainer());
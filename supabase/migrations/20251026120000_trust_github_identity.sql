@@ -0,0 +1,37 @@
+/*
+  # Read the GitHub Login from the Linked Identity
+
+  1. Changed Functions
+    - `github_login()` - Now reads `user_name` from the user's GitHub row in
+      `auth.identities` instead of the JWT's `user_metadata`
+
+  2. Security
+    - `user_metadata` can be rewritten by the signed-in user with
+      `auth.updateUser()`, so a user could name themselves after another
+      contributor and release their claims, claim tasks in their name, appear
+      as them in `task_events`, or pass `is_maintainer()` as a maintainer.
+      Identity data is written only by the auth server when signing in with
+      GitHub, so users cannot change it
+    - The function is SECURITY DEFINER to read `auth.identities`; it only ever
+      returns the caller's own login
+
+  3. Notes
+    - Users without a linked GitHub identity get NULL, so they can neither
+      claim tasks nor act as maintainers
+    - Policies, `is_maintainer()` and `record_task_events()` call this function
+      and pick up the new definition without changes
+*/
+
+CREATE OR REPLACE FUNCTION github_login()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT identity_data ->> 'user_name'
+  FROM auth.identities
+  WHERE user_id = auth.uid()
+    AND provider = 'github'
+  LIMIT 1;
+$$;
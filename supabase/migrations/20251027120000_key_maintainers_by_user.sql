@@ -0,0 +1,83 @@
+/*
+  # Key Maintainers by User
+
+  1. Modified Tables
+    - `maintainers`
+      - `user_id` (uuid, unique) - Auth user the maintainer signs in as,
+        filled in from their GitHub identity when the row is added
+
+  2. Changed Functions
+    - `is_maintainer()` - Compares `maintainers.user_id` with `auth.uid()`
+      instead of comparing logins
+
+  3. New Functions
+    - `link_maintainer_user()` - Trigger function looking up the auth user
+      linked to a maintainer's GitHub login
+
+  4. Security
+    - A maintainer was recognised by GitHub login alone, so anyone who could
+      present a maintainer's login could create and edit tasks, get past
+      `tasks_guard_content` and read `chat_webhooks`. The auth user id cannot
+      be chosen by the user, so `is_maintainer()` now depends on it alone
+    - Rows without a `user_id` grant nothing
+
+  5. Notes
+    - Existing maintainers are linked to the users who signed in with their
+      GitHub login; a maintainer who never signed in must sign in once and be
+      added again
+    - Adding a login nobody has signed in with fails, so a typo cannot grant
+      the role to whoever signs up with that login later
+    - Renaming a GitHub account keeps the role, since the user stays the same
+*/
+
+ALTER TABLE maintainers
+  ADD COLUMN IF NOT EXISTS user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE;
+
+UPDATE maintainers m
+SET user_id = i.user_id
+FROM auth.identities i
+WHERE i.provider = 'github'
+  AND lower(i.identity_data ->> 'user_name') = lower(m.login)
+  AND m.user_id IS NULL;
+
+DELETE FROM maintainers WHERE user_id IS NULL;
+
+CREATE OR REPLACE FUNCTION link_maintainer_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT user_id INTO NEW.user_id
+  FROM auth.identities
+  WHERE provider = 'github'
+    AND lower(identity_data ->> 'user_name') = lower(NEW.login)
+  LIMIT 1;
+
+  IF NEW.user_id IS NULL THEN
+    RAISE EXCEPTION 'No user has signed in with the GitHub login %', NEW.login
+      USING HINT = 'Ask them to sign in to the board once, then add them again.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS maintainers_link_user ON maintainers;
+CREATE TRIGGER maintainers_link_user
+  BEFORE INSERT OR UPDATE OF login ON maintainers
+  FOR EACH ROW
+  EXECUTE FUNCTION link_maintainer_user();
+
+CREATE OR REPLACE FUNCTION is_maintainer()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM maintainers WHERE user_id = auth.uid()
+  );
+$$;
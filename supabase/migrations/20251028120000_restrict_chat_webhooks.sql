@@ -0,0 +1,18 @@
+/*
+  # Restrict Chat Webhooks
+
+  1. Security
+    - Revoke all privileges on `chat_webhooks` from `anon`; visitors have no
+      use for the table, so it no longer depends on RLS alone to hide the
+      webhook URLs from them
+    - Signed-in users still reach the table only through the "Maintainers can
+      manage chat webhooks" policy, which calls `is_maintainer()`. Since
+      `20251027120000_key_maintainers_by_user` that checks the caller's user
+      id, so a user naming themselves after a maintainer cannot read the URLs
+
+  2. Notes
+    - The github-webhook Edge Function reads channels with the service role
+      and is not affected
+*/
+
+REVOKE ALL ON chat_webhooks FROM anon;
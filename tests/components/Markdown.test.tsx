@@ -0,0 +1,44 @@
+/**
+ * Rendering Tests for Issue Markdown
+ * Renders to static HTML to check that GitHub-flavoured Markdown survives and unsafe markup does not.
+ */
+
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, test } from 'vitest';
+import Markdown from '../../src/components/Markdown';
+
+function render(markdown: string): string {
+  return renderToStaticMarkup(<Markdown>{markdown}</Markdown>);
+}
+
+describe('Markdown', () => {
+  test('should render GFM task lists as disabled checkboxes', () => {
+    const html = render('- [x] Write tests\n- [ ] Open a pull request');
+
+    expect(html).toContain('<input type="checkbox" disabled="" checked=""/>');
+    expect(html).toContain('<input type="checkbox" disabled=""/>');
+  });
+
+  test('should highlight fenced code blocks', () => {
+    const html = render('```js\nconst answer = 42;\n```');
+
+    expect(html).toContain('class="hljs language-js"');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+  });
+
+  test('should strip scripts, event handlers and javascript links', () => {
+    const html = render(
+      '<script>alert(1)</script>\n\n<img src="x" onerror="alert(1)">\n\n[click](javascript:alert(1))'
+    );
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('javascript:');
+  });
+
+  test('should open links in a new tab', () => {
+    expect(render('[issue](https://github.com/owner/repo/issues/1)')).toContain(
+      '<a href="https://github.com/owner/repo/issues/1" target="_blank" rel="noopener noreferrer">issue</a>'
+    );
+  });
+});
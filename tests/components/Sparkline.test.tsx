@@ -0,0 +1,35 @@
+/**
+ * Rendering Tests for the Hero Sparkline
+ */
+
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, test } from 'vitest';
+import Sparkline from '../../src/components/Sparkline';
+
+function points(html: string): string {
+  return html.match(/<polyline points="([^"]*)"/)![1];
+}
+
+describe('Sparkline', () => {
+  test('should scale values to the box with zero at the bottom', () => {
+    const html = renderToStaticMarkup(<Sparkline values={[0, 2, 4]} width={104} height={24} label="Completed" />);
+
+    expect(points(html)).toBe('2,22 52,12 102,2');
+  });
+
+  test('should draw a flat line along the bottom when every value is zero', () => {
+    const html = renderToStaticMarkup(<Sparkline values={[0, 0, 0]} width={104} height={24} label="Completed" />);
+
+    expect(points(html)).toBe('2,22 52,22 102,22');
+  });
+
+  test('should describe the values for screen readers', () => {
+    const html = renderToStaticMarkup(<Sparkline values={[1, 3]} label="Completed per day" />);
+
+    expect(html).toContain('aria-label="Completed per day: 1, 3"');
+  });
+
+  test('should render nothing for fewer than two values', () => {
+    expect(renderToStaticMarkup(<Sparkline values={[5]} label="Completed" />)).toBe('');
+  });
+});
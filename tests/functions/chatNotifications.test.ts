@@ -0,0 +1,271 @@
+/**
+ * Integration Tests for Chat Notifications
+ * Delivers messages to a local stand-in for Discord and Slack webhooks.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest';
+import {
+  ChatWebhookError,
+  chatEventFor,
+  deliverChatMessage,
+  discordMessage,
+  matchesChannel,
+  notifyChannels,
+  retryAfterMs,
+  slackMessage,
+  type ChatWebhook,
+  type NotifiableTask,
+} from '../../supabase/functions/_shared/chatNotifications.ts';
+
+interface Received {
+  path: string;
+  body: unknown;
+  at: number;
+}
+
+/** Responses the stand-in gives per path, in order; after that it answers 204. */
+let scripted: Record<string, Array<{ status: number; headers?: Record<string, string> }>> = {};
+let received: Received[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const path = req.url || '/';
+      received.push({ path, body: JSON.parse(body), at: Date.now() });
+
+      if (path === '/hang') {
+        return;
+      }
+      const reply = scripted[path]?.shift() ?? { status: 204 };
+      res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(reply.status === 204 ? undefined : JSON.stringify({ message: 'stand-in' }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  scripted = {};
+  received = [];
+});
+
+const FAST = { baseDelayMs: 20, maxDelayMs: 200 };
+
+function task(overrides: Partial<NotifiableTask> = {}): NotifiableTask {
+  return {
+    id: '6b0e6b3c-4f7b-4b7e-9a41-0c1f2d3e4f50',
+    title: 'Add a unit converter',
+    difficulty: 'good-first-issue',
+    category: 'utility',
+    repository: 'jasonetorres/torctoberfest',
+    github_issue_url: 'https://github.com/jasonetorres/torctoberfest/issues/7',
+    claimed_by: null,
+    ...overrides,
+  };
+}
+
+function webhook(overrides: Partial<ChatWebhook> = {}): ChatWebhook {
+  return {
+    id: 'w1',
+    name: '#tasks',
+    format: 'discord',
+    url: `${baseUrl}/discord`,
+    events: ['created', 'claimed', 'completed'],
+    difficulties: [],
+    categories: [],
+    repositories: [],
+    ...overrides,
+  };
+}
+
+describe('chatEventFor', () => {
+  test('should report new, claimed and completed tasks', () => {
+    expect(chatEventFor(null, { status: 'open', claimed_by: null })).toBe('created');
+    expect(chatEventFor({ status: 'open', claimed_by: null }, { status: 'in-progress', claimed_by: 'octocat' })).toBe('claimed');
+    expect(chatEventFor({ status: 'in-progress', claimed_by: 'octocat' }, { status: 'in-progress', claimed_by: 'hubot' })).toBe(
+      'claimed'
+    );
+    expect(chatEventFor({ status: 'in-review', claimed_by: 'octocat' }, { status: 'completed', claimed_by: 'octocat' })).toBe(
+      'completed'
+    );
+  });
+
+  test('should ignore other changes', () => {
+    expect(chatEventFor({ status: 'in-progress', claimed_by: 'octocat' }, { status: 'open', claimed_by: null })).toBeNull();
+    expect(chatEventFor({ status: 'in-progress', claimed_by: 'octocat' }, { status: 'in-review', claimed_by: 'octocat' })).toBeNull();
+    expect(chatEventFor({ status: 'open', claimed_by: null }, { status: 'archived', claimed_by: null })).toBeNull();
+  });
+});
+
+describe('matchesChannel', () => {
+  test('should match every task without filters', () => {
+    expect(matchesChannel(webhook(), 'created', task({ difficulty: 'advanced' }))).toBe(true);
+  });
+
+  test('should apply event, difficulty, category and repository filters', () => {
+    const channel = webhook({
+      events: ['created'],
+      difficulties: ['good-first-issue'],
+      categories: ['utility', 'documentation'],
+      repositories: ['JasonETorres/Torctoberfest'],
+    });
+
+    expect(matchesChannel(channel, 'created', task())).toBe(true);
+    expect(matchesChannel(channel, 'claimed', task())).toBe(false);
+    expect(matchesChannel(channel, 'created', task({ difficulty: 'beginner' }))).toBe(false);
+    expect(matchesChannel(channel, 'created', task({ category: 'testing' }))).toBe(false);
+    expect(matchesChannel(channel, 'created', task({ repository: 'torc-dev/robots' }))).toBe(false);
+  });
+});
+
+describe('discordMessage', () => {
+  test('should build an embed linking to the board', () => {
+    const message = discordMessage('claimed', task({ claimed_by: 'octocat' }), 'https://torctoberfest.dev/');
+
+    expect(message.allowed_mentions).toEqual({ parse: [] });
+    expect(message.embeds).toEqual([
+      {
+        author: { name: 'Claimed by octocat' },
+        title: 'Add a unit converter',
+        url: 'https://torctoberfest.dev/?task=6b0e6b3c-4f7b-4b7e-9a41-0c1f2d3e4f50',
+        color: 0xf59e0b,
+        fields: [
+          { name: 'Difficulty', value: 'Good First Issue', inline: true },
+          { name: 'Category', value: 'Utility', inline: true },
+          { name: 'Repository', value: 'jasonetorres/torctoberfest', inline: true },
+        ],
+      },
+    ]);
+  });
+
+  test('should link to the issue without a site and keep titles within limits', () => {
+    const [embed] = discordMessage('created', task({ title: 'x'.repeat(300) })).embeds;
+
+    expect(embed.url).toBe('https://github.com/jasonetorres/torctoberfest/issues/7');
+    expect(embed.title).toHaveLength(256);
+  });
+});
+
+describe('slackMessage', () => {
+  test('should build blocks with an escaped link', () => {
+    const message = slackMessage('completed', task({ title: 'Fix <br> & co', claimed_by: 'octocat' }));
+
+    expect(message.text).toBe('Completed by octocat: Fix <br> & co');
+    expect(message.blocks).toEqual([
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: 'Completed by octocat: <https://github.com/jasonetorres/torctoberfest/issues/7|Fix &lt;br&gt; &amp; co>',
+        },
+      },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: 'Good First Issue · Utility · jasonetorres/torctoberfest' }] },
+    ]);
+  });
+});
+
+describe('retryAfterMs', () => {
+  test('should read seconds', () => {
+    expect(retryAfterMs('2')).toBe(2000);
+    expect(retryAfterMs('0.5')).toBe(500);
+    expect(retryAfterMs(null)).toBeNull();
+    expect(retryAfterMs('Wed, 21 Oct 2015 07:28:00 GMT')).toBeNull();
+  });
+});
+
+describe('deliverChatMessage', () => {
+  test('should post the message as JSON', async () => {
+    const attempts = await deliverChatMessage(`${baseUrl}/discord`, { content: 'hello' }, FAST);
+
+    expect(attempts).toBe(1);
+    expect(received).toMatchObject([{ path: '/discord', body: { content: 'hello' } }]);
+  });
+
+  test('should retry server errors with growing delays', async () => {
+    scripted['/discord'] = [{ status: 502 }, { status: 503 }];
+
+    const attempts = await deliverChatMessage(`${baseUrl}/discord`, { content: 'hello' }, { ...FAST, baseDelayMs: 40 });
+
+    expect(attempts).toBe(3);
+    const [first, second, third] = received.map(request => request.at);
+    expect(second - first).toBeGreaterThanOrEqual(35);
+    expect(third - second).toBeGreaterThanOrEqual(75);
+  });
+
+  test('should wait as long as a rate limit asks', async () => {
+    scripted['/slack'] = [{ status: 429, headers: { 'Retry-After': '0.15' } }];
+
+    await deliverChatMessage(`${baseUrl}/slack`, { text: 'hello' }, { ...FAST, maxDelayMs: 1000 });
+
+    expect(received).toHaveLength(2);
+    expect(received[1].at - received[0].at).toBeGreaterThanOrEqual(140);
+  });
+
+  test('should give up after the last attempt', async () => {
+    scripted['/discord'] = [{ status: 500 }, { status: 500 }, { status: 500 }];
+
+    await expect(deliverChatMessage(`${baseUrl}/discord`, {}, FAST)).rejects.toThrow(
+      new ChatWebhookError('Chat webhook responded 500', 500)
+    );
+    expect(received).toHaveLength(3);
+  });
+
+  test('should not retry a rejected message', async () => {
+    scripted['/discord'] = [{ status: 404 }];
+
+    await expect(deliverChatMessage(`${baseUrl}/discord`, {}, FAST)).rejects.toMatchObject({ status: 404 });
+    expect(received).toHaveLength(1);
+  });
+
+  test('should retry when the channel does not answer in time', async () => {
+    await expect(
+      deliverChatMessage(`${baseUrl}/hang`, {}, { ...FAST, attempts: 2, timeoutMs: 50 })
+    ).rejects.toMatchObject({ status: null, message: expect.stringContaining('unreachable') });
+    expect(received).toHaveLength(2);
+  });
+});
+
+describe('notifyChannels', () => {
+  test('should send each matching channel its own format', async () => {
+    const channels = [
+      webhook({ name: '#discord', url: `${baseUrl}/discord` }),
+      webhook({ name: '#slack', format: 'slack', url: `${baseUrl}/slack` }),
+      webhook({ name: '#advanced', url: `${baseUrl}/advanced`, difficulties: ['advanced'] }),
+    ];
+
+    const deliveries = await notifyChannels(channels, 'created', task(), FAST);
+
+    expect(deliveries).toEqual([
+      { webhook: '#discord', ok: true, attempts: 1 },
+      { webhook: '#slack', ok: true, attempts: 1 },
+    ]);
+    expect(received.map(request => request.path).sort()).toEqual(['/discord', '/slack']);
+    expect(received.find(request => request.path === '/slack')?.body).toHaveProperty('blocks');
+    expect(received.find(request => request.path === '/discord')?.body).toHaveProperty('embeds');
+  });
+
+  test('should report a failing channel without affecting the others', async () => {
+    scripted['/broken'] = [{ status: 410 }];
+    const channels = [webhook({ name: '#broken', url: `${baseUrl}/broken` }), webhook({ name: '#ok' })];
+
+    const deliveries = await notifyChannels(channels, 'completed', task(), FAST);
+
+    expect(deliveries).toEqual([
+      { webhook: '#broken', ok: false, error: 'Chat webhook responded 410' },
+      { webhook: '#ok', ok: true, attempts: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for Claim Expiry
+ * Tests deadlines, warnings and the release job with an in-memory store and a recording GitHub client.
+ */
+
+import { describe, expect, test, vi } from 'vitest';
+import {
+  claimDeadline,
+  daysUntil,
+  planClaimAction,
+  releaseStaleClaims,
+  type ClaimedTask,
+  type ClaimExpiryRule,
+  type ClaimStore,
+} from '../../supabase/functions/_shared/claimExpiry.ts';
+import { GitHubApiError, type GitHubClient } from '../../supabase/functions/_shared/githubClient.ts';
+import type { TaskState } from '../../supabase/functions/_shared/taskStatus.ts';
+
+const RULES: ClaimExpiryRule[] = [
+  { difficulty: 'good-first-issue', expires_after_days: 7, warn_before_days: 2 },
+  { difficulty: 'advanced', expires_after_days: 21, warn_before_days: 4 },
+];
+
+const CLAIMED_AT = '2025-10-01T00:00:00Z';
+
+function claimed(overrides: Partial<ClaimedTask> = {}): ClaimedTask {
+  return {
+    id: '1',
+    title: 'Add a CLI flag',
+    difficulty: 'good-first-issue',
+    github_issue_url: 'https://github.com/jasonetorres/torctoberfest/issues/12',
+    claimed_by: 'octocat',
+    claimed_at: CLAIMED_AT,
+    claim_warned_at: null,
+    ...overrides,
+  };
+}
+
+function recordingGitHub() {
+  const calls: string[] = [];
+  const github: GitHubClient = {
+    async listIssues() {
+      return [];
+    },
+    async createIssue() {
+      throw new Error('Not used');
+    },
+    async createIssueComment(repository, issueNumber) {
+      calls.push(`comment ${repository}#${issueNumber}`);
+    },
+    async removeAssignees(repository, issueNumber, logins) {
+      calls.push(`unassign ${repository}#${issueNumber} ${logins.join(',')}`);
+    },
+  };
+  return { github, calls };
+}
+
+function memoryStore(tasks: ClaimedTask[]) {
+  const state = new Map<string, ClaimedTask & Partial<TaskState>>(tasks.map(t => [t.id, { ...t }]));
+
+  const store: ClaimStore = {
+    async listClaimedTasks() {
+      return [...state.values()].filter(t => t.status === undefined).map(t => ({ ...t }));
+    },
+    async listExpiryRules() {
+      return RULES;
+    },
+    async markWarned(id, at) {
+      state.get(id)!.claim_warned_at = at.toISOString();
+    },
+    async releaseClaim(id, claimedBy, next) {
+      const task = state.get(id)!;
+      if (task.claimed_by !== claimedBy) return false;
+      Object.assign(task, next);
+      return true;
+    },
+  };
+
+  return { store, state };
+}
+
+describe('claimDeadline', () => {
+  test('should add the rule duration to the claim time', () => {
+    expect(claimDeadline(claimed(), RULES)).toEqual(new Date('2025-10-08T00:00:00Z'));
+    expect(claimDeadline(claimed({ difficulty: 'advanced' }), RULES)).toEqual(new Date('2025-10-22T00:00:00Z'));
+  });
+
+  test('should return null without a rule', () => {
+    expect(claimDeadline(claimed({ difficulty: 'beginner' }), RULES)).toBeNull();
+  });
+});
+
+describe('daysUntil', () => {
+  test('should round partial days up', () => {
+    const deadline = new Date('2025-10-08T00:00:00Z');
+    expect(daysUntil(deadline, new Date('2025-10-06T12:00:00Z'))).toBe(2);
+    expect(daysUntil(deadline, new Date('2025-10-07T23:00:00Z'))).toBe(1);
+    expect(daysUntil(deadline, new Date('2025-10-08T00:00:00Z'))).toBe(0);
+  });
+});
+
+describe('planClaimAction', () => {
+  test('should leave fresh claims alone', () => {
+    expect(planClaimAction(claimed(), RULES, new Date('2025-10-03T00:00:00Z'))).toBeNull();
+  });
+
+  test('should warn inside the warning window', () => {
+    expect(planClaimAction(claimed(), RULES, new Date('2025-10-06T00:00:00Z'))).toBe('warn');
+  });
+
+  test('should warn only once', () => {
+    const task = claimed({ claim_warned_at: '2025-10-06T00:00:00Z' });
+    expect(planClaimAction(task, RULES, new Date('2025-10-07T00:00:00Z'))).toBeNull();
+  });
+
+  test('should release once the deadline passes', () => {
+    const task = claimed({ claim_warned_at: '2025-10-06T00:00:00Z' });
+    expect(planClaimAction(task, RULES, new Date('2025-10-08T00:00:00Z'))).toBe('release');
+  });
+
+  test('should skip difficulties without a rule', () => {
+    expect(planClaimAction(claimed({ difficulty: 'beginner' }), RULES, new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('releaseStaleClaims', () => {
+  test('should warn on the issue and record the warning', async () => {
+    const { store, state } = memoryStore([claimed()]);
+    const { github, calls } = recordingGitHub();
+
+    const summary = await releaseStaleClaims(store, github, new Date('2025-10-06T00:00:00Z'));
+
+    expect(summary).toEqual({ warned: 1, released: 0, failed: [] });
+    expect(calls).toEqual(['comment jasonetorres/torctoberfest#12']);
+    expect(state.get('1')?.claim_warned_at).toBe('2025-10-06T00:00:00.000Z');
+  });
+
+  test('should release expired claims and unassign on GitHub', async () => {
+    const { store, state } = memoryStore([claimed({ claim_warned_at: '2025-10-06T00:00:00Z' })]);
+    const { github, calls } = recordingGitHub();
+
+    const summary = await releaseStaleClaims(store, github, new Date('2025-10-09T00:00:00Z'));
+
+    expect(summary).toEqual({ warned: 0, released: 1, failed: [] });
+    expect(state.get('1')).toMatchObject({ status: 'open', claimed_by: null });
+    expect(calls).toEqual([
+      'unassign jasonetorres/torctoberfest#12 octocat',
+      'comment jasonetorres/torctoberfest#12',
+    ]);
+  });
+
+  test('should not touch GitHub when the claim changed meanwhile', async () => {
+    const { store, state } = memoryStore([claimed()]);
+    const { github, calls } = recordingGitHub();
+    store.releaseClaim = async () => false;
+
+    const summary = await releaseStaleClaims(store, github, new Date('2025-10-09T00:00:00Z'));
+
+    expect(summary.released).toBe(0);
+    expect(calls).toEqual([]);
+    expect(state.get('1')?.claimed_by).toBe('octocat');
+  });
+
+  test('should release tasks without an issue silently', async () => {
+    const { store, state } = memoryStore([claimed({ github_issue_url: null })]);
+    const { github, calls } = recordingGitHub();
+
+    await releaseStaleClaims(store, github, new Date('2025-10-09T00:00:00Z'));
+
+    expect(state.get('1')).toMatchObject({ status: 'open' });
+    expect(calls).toEqual([]);
+  });
+
+  test('should carry on past tasks whose GitHub calls fail', async () => {
+    const { store, state } = memoryStore([
+      claimed({ id: '1', github_issue_url: 'https://github.com/jasonetorres/torctoberfest/issues/1' }),
+      claimed({ id: '2', github_issue_url: 'https://github.com/jasonetorres/torctoberfest/issues/2' }),
+      claimed({ id: '3', claimed_at: '2025-09-20T00:00:00Z', github_issue_url: 'https://github.com/jasonetorres/torctoberfest/issues/3' }),
+    ]);
+    const { github, calls } = recordingGitHub();
+    const comment = github.createIssueComment;
+    github.createIssueComment = async (repository, issueNumber, body) => {
+      if (issueNumber === 1) throw new GitHubApiError('GitHub API 422 for issue 1', 422);
+      return comment(repository, issueNumber, body);
+    };
+    github.removeAssignees = async () => {
+      throw new GitHubApiError('GitHub API 401 for assignees', 401);
+    };
+
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const summary = await releaseStaleClaims(store, github, new Date('2025-10-06T00:00:00Z'));
+    expect(log).toHaveBeenCalledTimes(2);
+    log.mockRestore();
+
+    expect(summary).toEqual({
+      warned: 1,
+      released: 1,
+      failed: [
+        { id: '1', action: 'warn', error: 'GitHub API 422 for issue 1' },
+        { id: '3', action: 'release', error: 'GitHub API 401 for assignees' },
+      ],
+    });
+    expect(calls).toEqual(['comment jasonetorres/torctoberfest#2']);
+    expect(state.get('1')?.claim_warned_at).toBeNull();
+    expect(state.get('2')?.claim_warned_at).toBe('2025-10-06T00:00:00.000Z');
+    expect(state.get('3')).toMatchObject({ status: 'open', claimed_by: null });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Estimated Time Parsing
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  extractEstimatedTime,
+  formatEstimatedRange,
+  parseEstimatedTime,
+} from '../../supabase/functions/_shared/estimatedTime.ts';
+
+describe('extractEstimatedTime', () => {
+  test('should read an inline estimate', () => {
+    expect(extractEstimatedTime('Some task\nEstimated Time: 2-3 hours\nMore')).toBe('2-3 hours');
+  });
+
+  test('should read a bold markdown estimate', () => {
+    expect(extractEstimatedTime('**Estimated Time:** 30 min')).toBe('30 min');
+  });
+
+  test('should read an issue form section', () => {
+    expect(extractEstimatedTime('### Estimated Time\n\n1 day\n\n### Notes')).toBe('1 day');
+  });
+
+  test('should return null when there is no estimate', () => {
+    expect(extractEstimatedTime('Just a description')).toBeNull();
+  });
+});
+
+describe('parseEstimatedTime', () => {
+  describe('Ranges', () => {
+    test('should parse an hour range', () => {
+      expect(parseEstimatedTime('2-3 hours')).toEqual({ min: 120, max: 180 });
+    });
+
+    test('should parse ranges written with "to" and en dashes', () => {
+      expect(parseEstimatedTime('1 to 2 hours')).toEqual({ min: 60, max: 120 });
+      expect(parseEstimatedTime('30–45 minutes')).toEqual({ min: 30, max: 45 });
+    });
+
+    test('should parse ranges with a unit on each side', () => {
+      expect(parseEstimatedTime('30 min - 1 hour')).toEqual({ min: 30, max: 60 });
+      expect(parseEstimatedTime('4h-2 days')).toEqual({ min: 240, max: 960 });
+    });
+
+    test('should swap reversed ranges', () => {
+      expect(parseEstimatedTime('3-2 hours')).toEqual({ min: 120, max: 180 });
+    });
+  });
+
+  describe('Single Durations', () => {
+    test('should parse minutes', () => {
+      expect(parseEstimatedTime('30 min')).toEqual({ min: 30, max: 30 });
+      expect(parseEstimatedTime('45m')).toEqual({ min: 45, max: 45 });
+    });
+
+    test('should parse fractional hours', () => {
+      expect(parseEstimatedTime('1.5 hours')).toEqual({ min: 90, max: 90 });
+    });
+
+    test('should count a day as eight working hours', () => {
+      expect(parseEstimatedTime('1 day')).toEqual({ min: 480, max: 480 });
+      expect(parseEstimatedTime('a day')).toEqual({ min: 480, max: 480 });
+    });
+
+    test('should count a week as five working days', () => {
+      expect(parseEstimatedTime('1 week')).toEqual({ min: 2400, max: 2400 });
+    });
+
+    test('should find a duration inside a sentence', () => {
+      expect(parseEstimatedTime('About 2 hours, maybe less')).toEqual({ min: 120, max: 120 });
+    });
+  });
+
+  describe('Unparseable Input', () => {
+    test('should return null for empty input', () => {
+      expect(parseEstimatedTime(null)).toBeNull();
+      expect(parseEstimatedTime('')).toBeNull();
+    });
+
+    test('should return null for text without a duration', () => {
+      expect(parseEstimatedTime('not sure yet')).toBeNull();
+      expect(parseEstimatedTime('Canada')).toBeNull();
+    });
+  });
+});
+
+describe('formatEstimatedRange', () => {
+  test('should format a single duration', () => {
+    expect(formatEstimatedRange({ min: 30, max: 30 })).toBe('30 min');
+    expect(formatEstimatedRange({ min: 60, max: 60 })).toBe('1 hour');
+    expect(formatEstimatedRange({ min: 480, max: 480 })).toBe('1 day');
+  });
+
+  test('should share the unit when both ends use it', () => {
+    expect(formatEstimatedRange({ min: 120, max: 180 })).toBe('2-3 hours');
+  });
+
+  test('should spell out both units when they differ', () => {
+    expect(formatEstimatedRange({ min: 30, max: 90 })).toBe('30 min - 1.5 hours');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Hacktoberfest Progress
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  eventProgress,
+  isGitHubLogin,
+  type EventWindow,
+  type PullRequestRecord,
+} from '../../supabase/functions/_shared/hacktoberfest.ts';
+
+const EVENT: EventWindow = {
+  starts_at: '2025-10-01T00:00:00Z',
+  ends_at: '2025-11-01T00:00:00Z',
+  pr_goal: 4,
+};
+
+function record(number: number, overrides: Partial<PullRequestRecord> = {}): PullRequestRecord {
+  return {
+    number,
+    html_url: `https://github.com/owner/repo/pull/${number}`,
+    state: 'closed',
+    merged: true,
+    opened_at: '2025-10-10T12:00:00Z',
+    merged_at: `2025-10-${10 + number}T12:00:00Z`,
+    created_at: '2025-10-10T12:00:00Z',
+    task: { id: `task-${number}`, title: `Task ${number}` },
+    ...overrides,
+  };
+}
+
+describe('isGitHubLogin', () => {
+  test('should accept GitHub usernames', () => {
+    expect(isGitHubLogin('octocat')).toBe(true);
+    expect(isGitHubLogin('Mona-Lisa-2')).toBe(true);
+  });
+
+  test('should reject anything else', () => {
+    expect(isGitHubLogin('')).toBe(false);
+    expect(isGitHubLogin('-octocat')).toBe(false);
+    expect(isGitHubLogin('octo--cat')).toBe(false);
+    expect(isGitHubLogin('octo%cat')).toBe(false);
+    expect(isGitHubLogin('a'.repeat(40))).toBe(false);
+  });
+});
+
+describe('eventProgress', () => {
+  test('should count merged pull requests opened during the event', () => {
+    const progress = eventProgress([record(1), record(2)], EVENT);
+
+    expect(progress.qualifying.map(pr => pr.number)).toEqual([2, 1]);
+    expect(progress.qualifying[0]).toMatchObject({ repository: 'owner/repo', tasks: [{ id: 'task-2', title: 'Task 2' }] });
+    expect(progress).toMatchObject({ goal: 4, remaining: 2, complete: false });
+  });
+
+  test('should ignore pull requests opened outside the event window', () => {
+    const progress = eventProgress(
+      [
+        record(1, { opened_at: '2025-09-30T23:59:59Z' }),
+        record(2, { opened_at: '2025-11-01T00:00:00Z' }),
+        record(3, { opened_at: '2025-10-31T23:59:59Z' }),
+      ],
+      EVENT
+    );
+
+    expect(progress.qualifying.map(pr => pr.number)).toEqual([3]);
+  });
+
+  test('should fall back to when the link was recorded for older rows', () => {
+    const progress = eventProgress([record(1, { opened_at: null, created_at: '2025-09-20T00:00:00Z' })], EVENT);
+
+    expect(progress.qualifying).toEqual([]);
+  });
+
+  test('should count a pull request that closes several tasks once', () => {
+    const task = { id: 'task-9', title: 'Task 9' };
+    const progress = eventProgress([record(1), record(1, { task }), record(1)], EVENT);
+
+    expect(progress.qualifying).toHaveLength(1);
+    expect(progress.qualifying[0].tasks.map(t => t.id)).toEqual(['task-1', 'task-9']);
+  });
+
+  test('should list open pull requests as pending and drop closed unmerged ones', () => {
+    const progress = eventProgress(
+      [record(1, { state: 'open', merged: false, merged_at: null }), record(2, { merged: false, merged_at: null })],
+      EVENT
+    );
+
+    expect(progress.qualifying).toEqual([]);
+    expect(progress.pending.map(pr => pr.number)).toEqual([1]);
+    expect(progress.remaining).toBe(4);
+  });
+
+  test('should be complete once the goal is reached', () => {
+    const progress = eventProgress([1, 2, 3, 4, 5].map(number => record(number)), EVENT);
+
+    expect(progress).toMatchObject({ remaining: 0, complete: true });
+    expect(progress.qualifying).toHaveLength(5);
+  });
+});
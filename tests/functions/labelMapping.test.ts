@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Label Mapping
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  filterOptions,
+  normalizeLabel,
+  resolveTaskLabels,
+  type LabelMapping,
+} from '../../supabase/functions/_shared/labelMapping.ts';
+
+function mapping(kind: LabelMapping['kind'], value: string, alias: string, priority = 0, is_fallback = false): LabelMapping {
+  return { kind, value, alias, priority, is_fallback };
+}
+
+const mappings: LabelMapping[] = [
+  mapping('difficulty', 'good-first-issue', 'good-first-issue', 40),
+  mapping('difficulty', 'beginner', 'beginner', 30, true),
+  mapping('difficulty', 'advanced', 'level:hard', 10),
+  mapping('category', 'utility', 'utility', 10, true),
+  mapping('category', 'documentation', 'docs', 20),
+  mapping('category', 'testing', 'testing', 20),
+];
+
+describe('normalizeLabel', () => {
+  test('should lowercase and join words with dashes', () => {
+    expect(normalizeLabel('Good First Issue')).toBe('good-first-issue');
+    expect(normalizeLabel('good_first_issue')).toBe('good-first-issue');
+  });
+
+  test('should trim surrounding whitespace', () => {
+    expect(normalizeLabel('  docs ')).toBe('docs');
+  });
+
+  test('should keep prefixes such as level:', () => {
+    expect(normalizeLabel('Level:Hard')).toBe('level:hard');
+  });
+});
+
+describe('resolveTaskLabels', () => {
+  test('should match labels written with spaces', () => {
+    expect(resolveTaskLabels(['good first issue', 'docs'], mappings)).toEqual({
+      difficulty: 'good-first-issue',
+      category: 'documentation',
+      fallbacks: [],
+    });
+  });
+
+  test('should match aliases with prefixes', () => {
+    expect(resolveTaskLabels(['level:hard', 'testing'], mappings).difficulty).toBe('advanced');
+  });
+
+  test('should prefer the mapping with the highest priority', () => {
+    expect(resolveTaskLabels(['beginner', 'good first issue'], mappings).difficulty).toBe('good-first-issue');
+    expect(resolveTaskLabels(['utility', 'docs'], mappings).category).toBe('documentation');
+  });
+
+  test('should use the configured fallback and report it', () => {
+    expect(resolveTaskLabels(['hacktoberfest'], mappings)).toEqual({
+      difficulty: 'beginner',
+      category: 'utility',
+      fallbacks: ['difficulty', 'category'],
+    });
+  });
+
+  test('should still resolve when no mappings are configured', () => {
+    expect(resolveTaskLabels(['beginner'], [])).toEqual({
+      difficulty: 'beginner',
+      category: 'utility',
+      fallbacks: ['difficulty', 'category'],
+    });
+  });
+
+  test('should ignore mappings to unknown values', () => {
+    const broken = [mapping('difficulty', 'expert', 'expert', 100)];
+    expect(resolveTaskLabels(['expert'], broken).fallbacks).toContain('difficulty');
+  });
+});
+
+describe('filterOptions', () => {
+  test('should list mapped values in taxonomy order with their aliases', () => {
+    expect(filterOptions(mappings, 'difficulty')).toEqual([
+      { value: 'good-first-issue', aliases: ['good-first-issue'] },
+      { value: 'beginner', aliases: ['beginner'] },
+      { value: 'advanced', aliases: ['level:hard'] },
+    ]);
+  });
+
+  test('should order aliases by priority', () => {
+    const extra = [...mappings, mapping('category', 'documentation', 'documentation', 50)];
+    expect(filterOptions(extra, 'category')[1]).toEqual({
+      value: 'documentation',
+      aliases: ['documentation', 'docs'],
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Pull Request Linking
+ */
+
+import { describe, expect, test } from 'vitest';
+import { parseClosingReferences } from '../../supabase/functions/_shared/pullRequests.ts';
+import { transitionForPullRequest, type TaskState } from '../../supabase/functions/_shared/taskStatus.ts';
+
+const REPO = 'jasonetorres/torctoberfest';
+
+describe('parseClosingReferences', () => {
+  test('should find a single closing keyword', () => {
+    expect(parseClosingReferences('Fixes #12', REPO)).toEqual([12]);
+  });
+
+  test('should accept every GitHub closing keyword', () => {
+    const keywords = ['close', 'closes', 'closed', 'fix', 'fixes', 'fixed', 'resolve', 'resolves', 'resolved'];
+    for (const keyword of keywords) {
+      expect(parseClosingReferences(`${keyword} #4`, REPO)).toEqual([4]);
+    }
+  });
+
+  test('should be case-insensitive and allow a colon', () => {
+    expect(parseClosingReferences('RESOLVES: #7', REPO)).toEqual([7]);
+  });
+
+  test('should find several references without duplicates', () => {
+    const body = 'This PR fixes #3 and closes #5.\n\nAlso fixes #3 again.';
+    expect(parseClosingReferences(body, REPO)).toEqual([3, 5]);
+  });
+
+  test('should accept references qualified with this repository', () => {
+    expect(parseClosingReferences('Closes jasonetorres/torctoberfest#9', REPO)).toEqual([9]);
+    expect(parseClosingReferences('Fixes https://github.com/jasonetorres/torctoberfest/issues/10', REPO)).toEqual([10]);
+  });
+
+  test('should ignore references to other repositories', () => {
+    expect(parseClosingReferences('Fixes someone/else#9', REPO)).toEqual([]);
+    expect(parseClosingReferences('Fixes https://github.com/someone/else/issues/10', REPO)).toEqual([]);
+  });
+
+  test('should ignore mentions without a closing keyword', () => {
+    expect(parseClosingReferences('Related to #12, see #13', REPO)).toEqual([]);
+  });
+
+  test('should ignore keywords embedded in other words', () => {
+    expect(parseClosingReferences('prefixes #12', REPO)).toEqual([]);
+  });
+
+  test('should handle an empty body', () => {
+    expect(parseClosingReferences(null, REPO)).toEqual([]);
+    expect(parseClosingReferences('', REPO)).toEqual([]);
+  });
+});
+
+describe('transitionForPullRequest', () => {
+  const open: TaskState = { status: 'open', claimed_by: null };
+  const claimed: TaskState = { status: 'in-progress', claimed_by: 'octocat' };
+  const inReview: TaskState = { status: 'in-review', claimed_by: 'octocat' };
+
+  test('should move a claimed task into review when a PR opens', () => {
+    expect(transitionForPullRequest(claimed, { author: 'octocat', merged: false, hasOpenPullRequest: true })).toEqual(inReview);
+  });
+
+  test('should credit the PR author on an unclaimed task', () => {
+    expect(transitionForPullRequest(open, { author: 'hubot', merged: false, hasOpenPullRequest: true })).toEqual({
+      status: 'in-review',
+      claimed_by: 'hubot',
+    });
+  });
+
+  test('should complete the task when the PR merges', () => {
+    expect(transitionForPullRequest(inReview, { author: 'octocat', merged: true, hasOpenPullRequest: false })).toEqual({
+      status: 'completed',
+      claimed_by: 'octocat',
+    });
+  });
+
+  test('should return the task to its claimant when the last PR closes unmerged', () => {
+    expect(transitionForPullRequest(inReview, { author: 'octocat', merged: false, hasOpenPullRequest: false })).toEqual(claimed);
+  });
+
+  test('should stay in review while another PR is still open', () => {
+    expect(transitionForPullRequest(inReview, { author: 'hubot', merged: false, hasOpenPullRequest: true })).toEqual(inReview);
+  });
+
+  test('should leave completed and archived tasks alone', () => {
+    const pr = { author: 'octocat', merged: false, hasOpenPullRequest: true };
+    expect(transitionForPullRequest({ status: 'completed', claimed_by: 'octocat' }, pr)).toBeNull();
+    expect(transitionForPullRequest({ status: 'archived', claimed_by: null }, pr)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for Task Recommendations
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  parseNewcomerProfile,
+  recommendTasks,
+  scoreTask,
+  suitableDifficulties,
+  type NewcomerProfile,
+  type RecommendableTask,
+} from '../../supabase/functions/_shared/recommendations.ts';
+
+function task(id: string, overrides: Partial<RecommendableTask> = {}): RecommendableTask {
+  return {
+    id,
+    title: 'Add a unit converter',
+    difficulty: 'beginner',
+    category: 'utility',
+    labels: [],
+    estimated_minutes_min: 60,
+    estimated_minutes_max: 120,
+    created_at: '2025-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function profile(overrides: Partial<NewcomerProfile> = {}): NewcomerProfile {
+  return { experience: 'new', languages: [], interests: [], time: 'all', ...overrides };
+}
+
+describe('scoreTask', () => {
+  test('should fit difficulty to experience', () => {
+    const easy = task('1', { difficulty: 'good-first-issue' });
+    const hard = task('2', { difficulty: 'advanced' });
+
+    expect(scoreTask(easy, profile()).score).toBeGreaterThan(scoreTask(hard, profile()).score);
+    expect(scoreTask(hard, profile({ experience: 'experienced' })).score).toBeGreaterThan(
+      scoreTask(easy, profile({ experience: 'experienced' })).score
+    );
+    expect(scoreTask(easy, profile()).reasons).toContain('Right level for you');
+  });
+
+  test('should match interests by category or by label and title words', () => {
+    expect(scoreTask(task('1', { category: 'documentation' }), profile({ interests: ['docs'] }))).toEqual({
+      score: 4,
+      reasons: ['Right level for you', 'Documentation'],
+    });
+    expect(scoreTask(task('1', { labels: ['ROS'] }), profile({ interests: ['robotics'] })).reasons).toContain(
+      'Robotics and hardware'
+    );
+    expect(scoreTask(task('1', { title: 'Control the robot arm' }), profile({ interests: ['robotics'] })).score).toBe(4);
+  });
+
+  test('should count an interest or a language once', () => {
+    const docs = task('1', { category: 'documentation', labels: ['docs', 'python'], title: 'Python docs' });
+
+    expect(scoreTask(docs, profile({ interests: ['docs', 'testing'], languages: ['Python'] })).score).toBe(6);
+  });
+
+  test('should match languages against labels and title', () => {
+    expect(scoreTask(task('1', { labels: ['c++'] }), profile({ languages: ['C++'] })).reasons).toContain('C++');
+    expect(scoreTask(task('1', { title: 'Port the CLI to Rust' }), profile({ languages: ['Rust'] })).reasons).toContain('Rust');
+    expect(scoreTask(task('1', { title: 'Rustic theme' }), profile({ languages: ['Rust'] })).reasons).not.toContain('Rust');
+  });
+
+  test('should reward tasks that fit the time available and penalize ones that cannot', () => {
+    const quick = task('1', { estimated_minutes_min: 30, estimated_minutes_max: 45 });
+    const long = task('2', { estimated_minutes_min: 300, estimated_minutes_max: 600 });
+    const unknown = task('3', { estimated_minutes_min: null, estimated_minutes_max: null });
+    const view = profile({ time: 'under-1-hour' });
+
+    expect(scoreTask(quick, view)).toEqual({ score: 4, reasons: ['Right level for you', 'Fits under 1 hour'] });
+    expect(scoreTask(long, view).score).toBe(0);
+    expect(scoreTask(unknown, view).score).toBe(2);
+  });
+});
+
+describe('recommendTasks', () => {
+  test('should rank best first, break ties by newest and drop poor fits', () => {
+    const tasks = [
+      task('old', { created_at: '2025-10-01T00:00:00Z' }),
+      task('new', { created_at: '2025-10-05T00:00:00Z' }),
+      task('docs', { category: 'documentation' }),
+      task('hard', { difficulty: 'advanced' }),
+    ];
+
+    const ranked = recommendTasks(tasks, profile({ interests: ['docs'] }), 10);
+
+    expect(ranked.map(t => t.id)).toEqual(['docs', 'new', 'old']);
+    expect(ranked[0]).toMatchObject({ score: 4, reasons: ['Right level for you', 'Documentation'] });
+  });
+
+  test('should respect the limit', () => {
+    expect(recommendTasks([task('1'), task('2'), task('3')], profile(), 2)).toHaveLength(2);
+  });
+});
+
+describe('parseNewcomerProfile', () => {
+  test('should read a stored profile', () => {
+    const stored = JSON.stringify(profile({ languages: ['Python'], interests: ['docs'], time: 'weekend' }));
+
+    expect(parseNewcomerProfile(stored)).toEqual(profile({ languages: ['Python'], interests: ['docs'], time: 'weekend' }));
+  });
+
+  test('should drop unknown values', () => {
+    const stored = JSON.stringify({ experience: 'some', languages: ['Cobol', 'Go', 3], interests: ['knitting', 'testing'], time: 'forever' });
+
+    expect(parseNewcomerProfile(stored)).toEqual({ experience: 'some', languages: ['Go'], interests: ['testing'], time: 'all' });
+  });
+
+  test('should reject missing or broken profiles', () => {
+    expect(parseNewcomerProfile(null)).toBeNull();
+    expect(parseNewcomerProfile('{')).toBeNull();
+    expect(parseNewcomerProfile('null')).toBeNull();
+    expect(parseNewcomerProfile(JSON.stringify({ experience: 'guru' }))).toBeNull();
+  });
+});
+
+describe('suitableDifficulties', () => {
+  test('should list the difficulties that fit, easiest first', () => {
+    expect(suitableDifficulties('new')).toEqual(['good-first-issue', 'beginner']);
+    expect(suitableDifficulties('experienced')).toEqual(['beginner', 'intermediate', 'advanced']);
+  });
+});
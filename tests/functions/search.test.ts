@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Task Search Helpers
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  MAX_SEARCH_LENGTH,
+  highlightMatches,
+  normalizeSearchQuery,
+  searchTerms,
+} from '../../supabase/functions/_shared/search.ts';
+
+describe('normalizeSearchQuery', () => {
+  test('should trim and collapse whitespace', () => {
+    expect(normalizeSearchQuery('  csv \n  parser ')).toBe('csv parser');
+  });
+
+  test('should cap the length', () => {
+    expect(normalizeSearchQuery('a'.repeat(500))).toHaveLength(MAX_SEARCH_LENGTH);
+  });
+});
+
+describe('searchTerms', () => {
+  test('should lowercase and deduplicate words', () => {
+    expect(searchTerms('CSV csv Parser')).toEqual(['csv', 'parser']);
+  });
+
+  test('should skip excluded words and the or operator', () => {
+    expect(searchTerms('CSV -json or "temperature units"')).toEqual(['csv', 'temperature', 'units']);
+  });
+
+  test('should return nothing for an empty query', () => {
+    expect(searchTerms('   ')).toEqual([]);
+  });
+});
+
+describe('highlightMatches', () => {
+  test('should mark matching words', () => {
+    expect(highlightMatches('Add a CSV export', ['csv'])).toEqual([
+      { text: 'Add a ', match: false },
+      { text: 'CSV', match: true },
+      { text: ' export', match: false },
+    ]);
+  });
+
+  test('should extend a match to the end of the word', () => {
+    expect(highlightMatches('Convert temperatures', ['temperature'])).toEqual([
+      { text: 'Convert ', match: false },
+      { text: 'temperatures', match: true },
+    ]);
+  });
+
+  test('should only match at the start of a word', () => {
+    expect(highlightMatches('Subtract numbers', ['tract'])).toEqual([{ text: 'Subtract numbers', match: false }]);
+  });
+
+  test('should treat regex characters literally', () => {
+    expect(highlightMatches('Handle a+b, not aab', ['a+b'])).toEqual([
+      { text: 'Handle ', match: false },
+      { text: 'a+b', match: true },
+      { text: ', not aab', match: false },
+    ]);
+  });
+
+  test('should return the text unchanged without terms', () => {
+    expect(highlightMatches('Add a CSV export', [])).toEqual([{ text: 'Add a CSV export', match: false }]);
+    expect(highlightMatches('', ['csv'])).toEqual([]);
+  });
+});
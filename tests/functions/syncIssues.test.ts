@@ -0,0 +1,217 @@
+/**
+ * Integration Tests for the Issue Backfill
+ * Runs the sync against a local fake GitHub API server and an in-memory task store.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest';
+import { createGitHubClient, GitHubApiError, nextPageUrl } from '../../supabase/functions/_shared/githubClient.ts';
+import type { GitHubIssueData } from '../../supabase/functions/_shared/issueTask.ts';
+import type { LabelMapping } from '../../supabase/functions/_shared/labelMapping.ts';
+import {
+  syncRepositoryIssues,
+  type ExistingTask,
+  type SyncedTask,
+  type TaskSyncStore,
+} from '../../supabase/functions/_shared/syncIssues.ts';
+import type { IssueDependency } from '../../supabase/functions/_shared/taskDependencies.ts';
+
+const REPO = 'jasonetorres/torctoberfest';
+
+function issue(number: number, overrides: Partial<GitHubIssueData> = {}): GitHubIssueData {
+  return {
+    number,
+    title: `Issue ${number}`,
+    body: 'Estimated Time: 1-2 hours',
+    html_url: `https://github.com/${REPO}/issues/${number}`,
+    labels: [{ name: 'good first issue' }, { name: 'docs' }],
+    user: { login: 'octocat' },
+    state: 'open',
+    assignee: null,
+    ...overrides,
+  };
+}
+
+/** Issues served by the fake API, two per page. */
+let repositoryIssues: GitHubIssueData[] = [];
+let requestedUrls: string[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requestedUrls.push(req.url || '');
+    const url = new URL(req.url || '/', baseUrl);
+
+    if (url.pathname !== `/repos/${REPO}/issues`) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: 'Not Found' }));
+      return;
+    }
+
+    const page = Number(url.searchParams.get('page') || '1');
+    const perPage = 2;
+    const items = repositoryIssues.slice((page - 1) * perPage, page * perPage);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (page * perPage < repositoryIssues.length) {
+      headers['Link'] = `<${baseUrl}/repos/${REPO}/issues?state=all&per_page=2&page=${page + 1}>; rel="next"`;
+    }
+
+    res.writeHead(200, headers);
+    res.end(JSON.stringify(items));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  repositoryIssues = [];
+  requestedUrls = [];
+});
+
+function memoryStore(initial: Array<ExistingTask & Partial<SyncedTask>> = []) {
+  const mappings: LabelMapping[] = [
+    { kind: 'difficulty', value: 'good-first-issue', alias: 'good-first-issue', priority: 40, is_fallback: false },
+    { kind: 'difficulty', value: 'beginner', alias: 'beginner', priority: 30, is_fallback: true },
+    { kind: 'category', value: 'utility', alias: 'utility', priority: 10, is_fallback: true },
+    { kind: 'category', value: 'documentation', alias: 'docs', priority: 20, is_fallback: false },
+  ];
+  const tasks = new Map<string, ExistingTask & Partial<SyncedTask>>(initial.map(t => [t.github_issue_url, t]));
+  const dependencies = new Map<string, IssueDependency[]>();
+  let nextId = initial.length + 1;
+
+  const store: TaskSyncStore = {
+    async listLabelMappings() {
+      return mappings;
+    },
+    async listTasks(prefix) {
+      return [...tasks.values()].filter(t => t.github_issue_url.startsWith(prefix));
+    },
+    async upsertTasks(rows) {
+      for (const row of rows) {
+        const existing = tasks.get(row.github_issue_url);
+        tasks.set(row.github_issue_url, { ...existing, ...row, id: existing?.id ?? String(nextId++) });
+      }
+    },
+    async updateTask(id, state) {
+      for (const task of tasks.values()) {
+        if (task.id === id) Object.assign(task, state);
+      }
+    },
+    async replaceDependencies(issueUrl, links) {
+      dependencies.set(issueUrl, links.map(link => ({ ...link })));
+    },
+  };
+
+  return { store, tasks, dependencies };
+}
+
+describe('nextPageUrl', () => {
+  test('should read the next link', () => {
+    const header = '<https://api.github.com/x?page=2>; rel="next", <https://api.github.com/x?page=5>; rel="last"';
+    expect(nextPageUrl(header)).toBe('https://api.github.com/x?page=2');
+  });
+
+  test('should return null on the last page', () => {
+    expect(nextPageUrl('<https://api.github.com/x?page=1>; rel="prev"')).toBeNull();
+    expect(nextPageUrl(null)).toBeNull();
+  });
+});
+
+describe('createGitHubClient', () => {
+  test('should follow pagination and skip pull requests', async () => {
+    repositoryIssues = [issue(1), issue(2, { pull_request: {} }), issue(3), issue(4), issue(5)];
+    const issues = await createGitHubClient({ baseUrl }).listIssues(REPO);
+
+    expect(issues.map(i => i.number)).toEqual([1, 3, 4, 5]);
+    expect(requestedUrls).toHaveLength(3);
+    expect(requestedUrls[0]).toBe(`/repos/${REPO}/issues?state=all&per_page=100`);
+  });
+
+  test('should throw GitHubApiError on an error response', async () => {
+    const error = await createGitHubClient({ baseUrl }).listIssues('someone/missing').catch(e => e);
+
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error.status).toBe(404);
+  });
+});
+
+describe('syncRepositoryIssues', () => {
+  test('should import every issue with the webhook mapping', async () => {
+    repositoryIssues = [issue(1), issue(2, { assignee: { login: 'hubot' } }), issue(3, { state: 'closed', state_reason: 'completed' })];
+    const { store, tasks } = memoryStore();
+
+    const summary = await syncRepositoryIssues(createGitHubClient({ baseUrl }), store, REPO);
+
+    expect(summary).toEqual({ repository: REPO, created: 3, updated: 0, archived: 0 });
+    expect(tasks.get(issue(1).html_url)).toMatchObject({
+      difficulty: 'good-first-issue',
+      category: 'documentation',
+      status: 'open',
+      repository: REPO,
+      estimated_minutes_min: 60,
+      estimated_minutes_max: 120,
+    });
+    expect(tasks.get(issue(2).html_url)).toMatchObject({ status: 'in-progress', claimed_by: 'hubot' });
+    expect(tasks.get(issue(3).html_url)).toMatchObject({ status: 'completed' });
+  });
+
+  test('should update existing tasks without duplicating them', async () => {
+    repositoryIssues = [issue(1, { title: 'Renamed' })];
+    const { store, tasks } = memoryStore([
+      { id: 'a', github_issue_url: issue(1).html_url, status: 'open', claimed_by: null, title: 'Old' },
+    ]);
+
+    const summary = await syncRepositoryIssues(createGitHubClient({ baseUrl }), store, REPO);
+
+    expect(summary).toMatchObject({ created: 0, updated: 1 });
+    expect(tasks.size).toBe(1);
+    expect(tasks.get(issue(1).html_url)).toMatchObject({ id: 'a', title: 'Renamed' });
+  });
+
+  test('should keep a task in review while its issue is open', async () => {
+    repositoryIssues = [issue(1, { assignee: { login: 'hubot' } })];
+    const { store, tasks } = memoryStore([
+      { id: 'a', github_issue_url: issue(1).html_url, status: 'in-review', claimed_by: 'hubot' },
+    ]);
+
+    await syncRepositoryIssues(createGitHubClient({ baseUrl }), store, REPO);
+
+    expect(tasks.get(issue(1).html_url)).toMatchObject({ status: 'in-review', claimed_by: 'hubot' });
+  });
+
+  test('should record the dependencies in issue bodies', async () => {
+    repositoryIssues = [issue(1, { body: 'Depends on #2' }), issue(2), issue(3)];
+    const { store, dependencies } = memoryStore([
+      { id: 'a', github_issue_url: issue(3).html_url, status: 'open', claimed_by: null },
+    ]);
+
+    await syncRepositoryIssues(createGitHubClient({ baseUrl }), store, REPO);
+
+    expect(dependencies.get(issue(1).html_url)).toEqual([{ kind: 'blocked_by', issue_url: issue(2).html_url }]);
+    // Existing tasks are cleared in case their links were removed; new ones without links are skipped.
+    expect(dependencies.get(issue(3).html_url)).toEqual([]);
+    expect(dependencies.has(issue(2).html_url)).toBe(false);
+  });
+
+  test('should archive tasks whose issues vanished', async () => {
+    repositoryIssues = [issue(1)];
+    const { store, tasks } = memoryStore([
+      { id: 'a', github_issue_url: issue(1).html_url, status: 'open', claimed_by: null },
+      { id: 'b', github_issue_url: issue(9).html_url, status: 'in-progress', claimed_by: 'hubot' },
+      { id: 'c', github_issue_url: 'https://github.com/someone/else/issues/9', status: 'open', claimed_by: null },
+    ]);
+
+    const summary = await syncRepositoryIssues(createGitHubClient({ baseUrl }), store, REPO);
+
+    expect(summary.archived).toBe(1);
+    expect(tasks.get(issue(9).html_url)).toMatchObject({ status: 'archived' });
+    expect(tasks.get('https://github.com/someone/else/issues/9')).toMatchObject({ status: 'open' });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Unit Tests for Task Curation
+ * Publishing runs against a local fake GitHub API server and an in-memory task store.
+ */
+
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'vitest';
+import { createGitHubClient, GitHubApiError, type NewIssue } from '../../supabase/functions/_shared/githubClient.ts';
+import type { LabelMapping } from '../../supabase/functions/_shared/labelMapping.ts';
+import {
+  PublishTaskError,
+  draftToTask,
+  parseLabelInput,
+  publishTask,
+  relabel,
+  taskToIssue,
+  validateTaskDraft,
+  type PublishStore,
+  type PublishableTask,
+  type TaskDraft,
+} from '../../supabase/functions/_shared/taskAdmin.ts';
+
+const REPO = 'jasonetorres/torctoberfest';
+
+const MAPPINGS: LabelMapping[] = [
+  { kind: 'difficulty', value: 'good-first-issue', alias: 'good first issue', priority: 40, is_fallback: false },
+  { kind: 'difficulty', value: 'beginner', alias: 'beginner', priority: 30, is_fallback: true },
+  { kind: 'difficulty', value: 'advanced', alias: 'advanced', priority: 10, is_fallback: false },
+  { kind: 'category', value: 'documentation', alias: 'docs', priority: 10, is_fallback: false },
+  { kind: 'category', value: 'documentation', alias: 'documentation', priority: 20, is_fallback: false },
+  { kind: 'category', value: 'utility', alias: 'utility', priority: 10, is_fallback: true },
+];
+
+function draft(overrides: Partial<TaskDraft> = {}): TaskDraft {
+  return {
+    title: 'Document the CLI flags',
+    description: 'List every flag in the README.',
+    repository: REPO,
+    difficulty: 'good-first-issue',
+    category: 'documentation',
+    labels: ['docs'],
+    estimated_time: '1-2 hours',
+    ...overrides,
+  };
+}
+
+describe('parseLabelInput', () => {
+  test('should split, trim and deduplicate', () => {
+    expect(parseLabelInput(' docs, good first issue,docs ,, ')).toEqual(['docs', 'good first issue']);
+  });
+});
+
+describe('validateTaskDraft', () => {
+  test('should accept a complete draft', () => {
+    expect(validateTaskDraft(draft())).toEqual([]);
+    expect(validateTaskDraft(draft({ estimated_time: '' }))).toEqual([]);
+  });
+
+  test('should report every problem', () => {
+    expect(validateTaskDraft(draft({ title: '  ', repository: '', estimated_time: 'soon' }))).toEqual([
+      'Title is required',
+      'Choose a repository',
+      'Estimated time should look like "30 min" or "2-3 hours"',
+    ]);
+  });
+});
+
+describe('draftToTask', () => {
+  test('should parse the estimate into minutes', () => {
+    expect(draftToTask(draft())).toMatchObject({
+      title: 'Document the CLI flags',
+      estimated_time: '1-2 hours',
+      estimated_minutes_min: 60,
+      estimated_minutes_max: 120,
+    });
+  });
+
+  test('should store an empty estimate as none', () => {
+    expect(draftToTask(draft({ estimated_time: ' ' }))).toMatchObject({
+      estimated_time: null,
+      estimated_minutes_min: null,
+      estimated_minutes_max: null,
+    });
+  });
+});
+
+describe('relabel', () => {
+  test('should add new labels after existing ones and remove others', () => {
+    expect(relabel(['docs', 'help wanted'], ['hacktoberfest', 'docs'], ['help wanted'])).toEqual(['docs', 'hacktoberfest']);
+  });
+
+  test('should let removal win', () => {
+    expect(relabel([], ['docs'], ['docs'])).toEqual([]);
+  });
+});
+
+describe('taskToIssue', () => {
+  test('should add labels so the webhook maps the issue back to the same difficulty and category', () => {
+    const issue = taskToIssue(draftToTask(draft({ labels: ['hacktoberfest'] })), MAPPINGS);
+
+    expect(issue.labels).toEqual(['hacktoberfest', 'good first issue', 'documentation']);
+  });
+
+  test('should not repeat labels that already resolve', () => {
+    expect(taskToIssue(draftToTask(draft({ labels: ['good first issue', 'docs'] })), MAPPINGS).labels).toEqual([
+      'good first issue',
+      'docs',
+    ]);
+  });
+
+  test('should add a label for a fallback value', () => {
+    expect(taskToIssue(draftToTask(draft({ difficulty: 'beginner', labels: ['docs'] })), MAPPINGS).labels).toEqual([
+      'docs',
+      'beginner',
+    ]);
+  });
+
+  test('should append the estimate unless the description has one', () => {
+    expect(taskToIssue(draftToTask(draft()), MAPPINGS).body).toBe(
+      'List every flag in the README.\n\nEstimated Time: 1-2 hours'
+    );
+    expect(taskToIssue(draftToTask(draft({ description: 'Estimated Time: 3 hours' })), MAPPINGS).body).toBe(
+      'Estimated Time: 3 hours'
+    );
+  });
+});
+
+let createdIssues: Array<{ url: string; issue: NewIssue }> = [];
+let failWith: number | null = null;
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      if (failWith) {
+        res.writeHead(failWith, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Nope' }));
+        return;
+      }
+      if (req.method !== 'POST' || req.url !== `/repos/${REPO}/issues`) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not Found' }));
+        return;
+      }
+
+      const number = 100 + createdIssues.length;
+      createdIssues.push({ url: req.url, issue: JSON.parse(body) });
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ number, html_url: `https://github.com/${REPO}/issues/${number}` }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  createdIssues = [];
+  failWith = null;
+});
+
+function memoryStore(tasks: PublishableTask[]) {
+  const state = new Map(tasks.map(t => [t.id, { ...t }]));
+  const store: PublishStore = {
+    async getTask(id) {
+      const task = state.get(id);
+      return task ? { ...task } : null;
+    },
+    async isRegisteredRepository(fullName) {
+      return fullName === REPO;
+    },
+    async listLabelMappings() {
+      return MAPPINGS;
+    },
+    async linkIssue(id, issueUrl) {
+      state.get(id)!.github_issue_url = issueUrl;
+    },
+  };
+  return { store, state };
+}
+
+function publishable(id: string, overrides: Partial<PublishableTask> = {}): PublishableTask {
+  return { id, github_issue_url: null, ...draftToTask(draft()), ...overrides };
+}
+
+describe('publishTask', () => {
+  test('should open an issue and link the task to it', async () => {
+    const { store, state } = memoryStore([publishable('t1')]);
+
+    const result = await publishTask(store, createGitHubClient({ baseUrl }), 't1');
+
+    expect(result).toEqual({ issueUrl: `https://github.com/${REPO}/issues/100` });
+    expect(state.get('t1')!.github_issue_url).toBe(result.issueUrl);
+    expect(createdIssues).toHaveLength(1);
+    expect(createdIssues[0].issue).toEqual({
+      title: 'Document the CLI flags',
+      body: 'List every flag in the README.\n\nEstimated Time: 1-2 hours',
+      labels: ['docs', 'good first issue'],
+    });
+  });
+
+  test('should refuse tasks that are missing, published or in an unregistered repository', async () => {
+    const { store } = memoryStore([
+      publishable('published', { github_issue_url: `https://github.com/${REPO}/issues/1` }),
+      publishable('elsewhere', { repository: 'someone/else' }),
+    ]);
+    const github = createGitHubClient({ baseUrl });
+
+    await expect(publishTask(store, github, 'missing')).rejects.toMatchObject({ status: 404 });
+    await expect(publishTask(store, github, 'published')).rejects.toMatchObject({ status: 409 });
+    await expect(publishTask(store, github, 'elsewhere')).rejects.toBeInstanceOf(PublishTaskError);
+    expect(createdIssues).toEqual([]);
+  });
+
+  test('should leave the task unlinked when GitHub rejects the issue', async () => {
+    const { store, state } = memoryStore([publishable('t1')]);
+    failWith = 403;
+
+    await expect(publishTask(store, createGitHubClient({ baseUrl }), 't1')).rejects.toBeInstanceOf(GitHubApiError);
+    expect(state.get('t1')!.github_issue_url).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Task Dependencies
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  diffDependencies,
+  isBlocking,
+  parseIssueDependencies,
+} from '../../supabase/functions/_shared/taskDependencies.ts';
+
+const REPO = 'jasonetorres/torctoberfest';
+
+function url(number: number, repository = REPO): string {
+  return `https://github.com/${repository}/issues/${number}`;
+}
+
+describe('parseIssueDependencies', () => {
+  test('should find "depends on" and "blocked by" references', () => {
+    expect(parseIssueDependencies('Depends on #3.\n\nBlocked by: #4', REPO)).toEqual([
+      { kind: 'blocked_by', issue_url: url(3) },
+      { kind: 'blocked_by', issue_url: url(4) },
+    ]);
+  });
+
+  test('should read a list of references', () => {
+    expect(parseIssueDependencies('This depends on #3, #4 and owner/other#5 & #6', REPO)).toEqual([
+      { kind: 'blocked_by', issue_url: url(3) },
+      { kind: 'blocked_by', issue_url: url(4) },
+      { kind: 'blocked_by', issue_url: url(5, 'owner/other') },
+      { kind: 'blocked_by', issue_url: url(6) },
+    ]);
+  });
+
+  test('should accept issue URLs', () => {
+    expect(parseIssueDependencies(`Depends on ${url(7, 'owner/other')}`, REPO)).toEqual([
+      { kind: 'blocked_by', issue_url: url(7, 'owner/other') },
+    ]);
+  });
+
+  test('should read task list items as sub-tasks', () => {
+    const body = '## Steps\n- [ ] #7 CSV converter\n- [x] #8\n* [ ] owner/other#9\n- [ ] Write docs for #10';
+
+    expect(parseIssueDependencies(body, REPO)).toEqual([
+      { kind: 'subtask', issue_url: url(7) },
+      { kind: 'subtask', issue_url: url(8) },
+      { kind: 'subtask', issue_url: url(9, 'owner/other') },
+    ]);
+  });
+
+  test('should ignore mentions without a keyword, duplicates and the issue itself', () => {
+    const body = 'See #2. Depends on #3 and #1. Also depends on #3.';
+
+    expect(parseIssueDependencies(body, REPO, url(1))).toEqual([{ kind: 'blocked_by', issue_url: url(3) }]);
+    expect(parseIssueDependencies(null, REPO)).toEqual([]);
+  });
+});
+
+describe('diffDependencies', () => {
+  test('should keep unchanged links and replace the rest', () => {
+    const current = [
+      { id: 'a', kind: 'blocked_by' as const, issue_url: url(3) },
+      { id: 'b', kind: 'subtask' as const, issue_url: url(4) },
+    ];
+    const next = [
+      { kind: 'blocked_by' as const, issue_url: url(3).toUpperCase() },
+      { kind: 'blocked_by' as const, issue_url: url(4) },
+    ];
+
+    expect(diffDependencies(current, next)).toEqual({
+      removed: ['b'],
+      added: [{ kind: 'blocked_by', issue_url: url(4) }],
+    });
+  });
+});
+
+describe('isBlocking', () => {
+  test('should stop blocking once a task is completed or archived', () => {
+    expect(isBlocking('open')).toBe(true);
+    expect(isBlocking('in-review')).toBe(true);
+    expect(isBlocking('completed')).toBe(false);
+    expect(isBlocking('archived')).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for Task History
+ */
+
+import { describe, expect, test } from 'vitest';
+import { describeTaskEvent, type TaskEvent } from '../../supabase/functions/_shared/taskEvents.ts';
+
+function event(overrides: Partial<TaskEvent>): TaskEvent {
+  return {
+    id: '1',
+    event_type: 'created',
+    actor: null,
+    from_value: null,
+    to_value: null,
+    labels_added: [],
+    labels_removed: [],
+    created_at: '2025-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('describeTaskEvent', () => {
+  test('should describe task creation', () => {
+    expect(describeTaskEvent(event({ to_value: 'open' }))).toBe('Task created');
+    expect(describeTaskEvent(event({ to_value: 'in-progress' }))).toBe('Task created as In progress');
+    expect(describeTaskEvent(event({}))).toBe('Task created');
+  });
+
+  test('should tell claims on the board from assignments on GitHub', () => {
+    expect(describeTaskEvent(event({ event_type: 'claimed', actor: 'octocat', to_value: 'octocat' }))).toBe(
+      'octocat claimed the task'
+    );
+    expect(describeTaskEvent(event({ event_type: 'claimed', actor: 'hubot', to_value: 'octocat' }))).toBe(
+      'hubot assigned the task to octocat'
+    );
+    expect(describeTaskEvent(event({ event_type: 'claimed', to_value: 'octocat' }))).toBe('Claimed by octocat');
+  });
+
+  test('should describe released claims', () => {
+    expect(describeTaskEvent(event({ event_type: 'released', actor: 'octocat', from_value: 'octocat' }))).toBe(
+      'octocat released the task'
+    );
+    expect(describeTaskEvent(event({ event_type: 'released', from_value: 'octocat' }))).toBe('Claim by octocat released');
+  });
+
+  test('should describe status changes with display labels', () => {
+    expect(describeTaskEvent(event({ event_type: 'status_changed', from_value: 'in-review', to_value: 'completed' }))).toBe(
+      'Status changed from In review to Completed'
+    );
+    expect(describeTaskEvent(event({ event_type: 'status_changed', to_value: 'completed' }))).toBe('Marked Completed');
+  });
+
+  test('should list added and removed labels', () => {
+    expect(describeTaskEvent(event({ event_type: 'labels_changed', labels_added: ['docs'] }))).toBe('Added label docs');
+    expect(
+      describeTaskEvent(event({ event_type: 'labels_changed', labels_added: ['docs', 'bug'], labels_removed: ['wontfix'] }))
+    ).toBe('Added labels docs, bug; removed label wontfix');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Unit Tests for Task Feeds
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  FEED_FORMATS,
+  buildAtomFeed,
+  buildJsonFeed,
+  escapeXml,
+  feedParams,
+  feedTitle,
+  parseFeedRequest,
+  renderTaskFeed,
+  type FeedOptions,
+  type FeedTask,
+} from '../../supabase/functions/_shared/taskFeed.ts';
+import { DEFAULT_TASK_FILTERS, type TaskFilters } from '../../supabase/functions/_shared/taskFilters.ts';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const NAME = '[A-Za-z_][\\w.:-]*';
+const ENTITY = /&(?:amp|lt|gt|quot|apos|#\d+|#x[\da-fA-F]+);/g;
+
+function decode(text: string): string {
+  if (/[<]/.test(text) || /&/.test(text.replace(ENTITY, ''))) {
+    throw new Error(`Unescaped markup in ${JSON.stringify(text)}`);
+  }
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Small XML reader, enough to prove a feed is well-formed: one root element,
+ * matching tags, quoted and unique attributes, and only predefined entities.
+ */
+function parseXml(xml: string): XmlElement {
+  const declaration = /^<\?xml [^?]*\?>\s*/.exec(xml);
+  let rest = declaration ? xml.slice(declaration[0].length) : xml;
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const tag = new RegExp(`^<(/?)(${NAME})((?:\\s+${NAME}\\s*=\\s*"[^"<]*")*)\\s*(/?)>`);
+
+  while (rest.length > 0) {
+    const textEnd = rest.indexOf('<');
+    const text = textEnd === -1 ? rest : rest.slice(0, textEnd);
+    stack[stack.length - 1].text += decode(text);
+    rest = rest.slice(text.length);
+    if (!rest) break;
+
+    const match = tag.exec(rest);
+    if (!match) {
+      throw new Error(`Malformed tag at ${JSON.stringify(rest.slice(0, 40))}`);
+    }
+    const [whole, closing, name, attributeText, selfClosing] = match;
+    rest = rest.slice(whole.length);
+
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name || stack.length === 0) {
+        throw new Error(`Unexpected </${name}>`);
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, key, value] of attributeText.matchAll(new RegExp(`(${NAME})\\s*=\\s*"([^"]*)"`, 'g'))) {
+      if (key in attributes) throw new Error(`Duplicate attribute ${key}`);
+      attributes[key] = decode(value);
+    }
+    const element: XmlElement = { name, attributes, children: [], text: '' };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1 || root.children.length !== 1 || root.text.trim()) {
+    throw new Error('Expected exactly one root element');
+  }
+  return root.children[0];
+}
+
+function children(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => child.name === name);
+}
+
+function child(element: XmlElement, name: string): XmlElement {
+  const [found] = children(element, name);
+  if (!found) throw new Error(`<${element.name}> has no <${name}>`);
+  return found;
+}
+
+const RFC_3339 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+function task(id: string, overrides: Partial<FeedTask> = {}): FeedTask {
+  return {
+    id,
+    title: 'Add a unit converter',
+    description: 'Convert between **metric** and imperial units.',
+    difficulty: 'beginner',
+    category: 'utility',
+    labels: ['javascript'],
+    repository: 'jasonetorres/torctoberfest',
+    github_issue_url: `https://github.com/jasonetorres/torctoberfest/issues/${id.length}`,
+    estimated_time: '1-2 hours',
+    created_at: '2025-10-01T12:00:00.123456+00:00',
+    updated_at: '2025-10-02T08:30:00+00:00',
+    ...overrides,
+  };
+}
+
+function options(overrides: Partial<TaskFilters> = {}): FeedOptions {
+  return {
+    siteUrl: 'https://torctoberfest.dev/',
+    feedUrl: 'https://example.supabase.co/functions/v1/task-feed?format=atom',
+    filters: { ...DEFAULT_TASK_FILTERS, ...overrides },
+    now: new Date('2025-10-05T00:00:00Z'),
+  };
+}
+
+const TASKS = [
+  task('6b0e6b3c-4f7b-4b7e-9a41-0c1f2d3e4f50'),
+  task('0f1e2d3c-4b5a-4968-8776-655443322110', {
+    title: 'Fix <pre> & "quotes" in \'README\'',
+    description: null,
+    labels: ['docs', 'help wanted'],
+    category: 'documentation',
+    github_issue_url: null,
+    estimated_time: null,
+    updated_at: '2025-10-03T00:00:00Z',
+  }),
+];
+
+describe('parseFeedRequest', () => {
+  test('should read the board filters and the format', () => {
+    const { format, filters } = parseFeedRequest(
+      new URLSearchParams('format=json&difficulty=beginner&category=documentation&label=docs&label=help+wanted')
+    );
+
+    expect(format).toBe('json');
+    expect(filters).toMatchObject({ difficulty: 'beginner', category: 'documentation', labels: ['docs', 'help wanted'] });
+  });
+
+  test('should always list open tasks, newest first', () => {
+    const { format, filters } = parseFeedRequest(new URLSearchParams('format=rss&status=done&sort=oldest&watchlist=1'));
+
+    expect(format).toBe('atom');
+    expect(filters).toMatchObject({ status: 'open', sort: 'newest', watchlist: false });
+  });
+});
+
+describe('feedParams', () => {
+  test('should round-trip board filters through the feed request', () => {
+    const filters: TaskFilters = { ...DEFAULT_TASK_FILTERS, difficulty: 'advanced', labels: ['rust'], hideBlocked: true };
+
+    for (const format of FEED_FORMATS) {
+      expect(parseFeedRequest(feedParams(filters, format))).toEqual({ format, filters });
+    }
+  });
+
+  test('should leave out settings a feed ignores', () => {
+    const params = feedParams({ ...DEFAULT_TASK_FILTERS, status: 'completed', sort: 'oldest', watchlist: true }, 'json');
+
+    expect(params.toString()).toBe('format=json');
+  });
+});
+
+describe('feedTitle', () => {
+  test('should name the filters in use', () => {
+    expect(feedTitle(DEFAULT_TASK_FILTERS)).toBe('Torctoberfest tasks');
+    expect(feedTitle({ ...DEFAULT_TASK_FILTERS, difficulty: 'good-first-issue', category: 'testing', labels: ['python'] })).toBe(
+      'Torctoberfest tasks: Good First Issue, Testing, python'
+    );
+  });
+});
+
+describe('escapeXml', () => {
+  test('should escape markup and drop characters XML cannot hold', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>\u0000\u0007`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+    );
+    expect(escapeXml('tabs\tand\r\nlines 🎃\uFFFE')).toBe('tabs\tand\r\nlines 🎃');
+  });
+});
+
+describe('buildAtomFeed', () => {
+  test('should produce a well-formed Atom document', () => {
+    const feed = parseXml(buildAtomFeed(TASKS, options()));
+
+    expect(feed.name).toBe('feed');
+    expect(feed.attributes.xmlns).toBe('http://www.w3.org/2005/Atom');
+  });
+
+  test('should include the elements Atom requires', () => {
+    const feed = parseXml(buildAtomFeed(TASKS, options({ difficulty: 'beginner' })));
+
+    expect(child(feed, 'id').text).toBe(options().feedUrl);
+    expect(child(feed, 'title').text).toBe('Torctoberfest tasks: Beginner');
+    expect(child(feed, 'updated').text).toBe('2025-10-03T00:00:00.000Z');
+    expect(children(feed, 'link').map(link => link.attributes)).toContainEqual({
+      rel: 'self',
+      type: 'application/atom+xml',
+      href: options().feedUrl,
+    });
+    expect(child(child(feed, 'author'), 'name').text).toBe('Torctoberfest');
+
+    const entries = children(feed, 'entry');
+    expect(entries).toHaveLength(2);
+    for (const entry of entries) {
+      expect(child(entry, 'id').text).toMatch(/^urn:uuid:[\da-f-]{36}$/);
+      expect(child(entry, 'title').text).not.toBe('');
+      expect(child(entry, 'updated').text).toMatch(RFC_3339);
+      expect(child(entry, 'published').text).toMatch(RFC_3339);
+      expect(children(entry, 'link').filter(link => link.attributes.rel === 'alternate')).toHaveLength(1);
+    }
+  });
+
+  test('should describe each task', () => {
+    const [first, second] = children(parseXml(buildAtomFeed(TASKS, options())), 'entry');
+
+    expect(child(first, 'link').attributes.href).toBe(`https://torctoberfest.dev/?task=${TASKS[0].id}`);
+    expect(children(first, 'link').map(link => link.attributes.href)).toContain(TASKS[0].github_issue_url);
+    expect(child(first, 'published').text).toBe('2025-10-01T12:00:00.123Z');
+    expect(child(first, 'summary').text).toBe('Beginner · Utility · 1-2 hours · jasonetorres/torctoberfest');
+    expect(child(first, 'content').text).toBe(TASKS[0].description);
+    expect(children(first, 'category').map(category => category.attributes.term)).toEqual(['beginner', 'utility', 'javascript']);
+
+    expect(child(second, 'title').text).toBe('Fix <pre> & "quotes" in \'README\'');
+    expect(children(second, 'content')).toEqual([]);
+    expect(children(second, 'link')).toHaveLength(1);
+  });
+
+  test('should stay valid without tasks', () => {
+    const feed = parseXml(buildAtomFeed([], options()));
+
+    expect(child(feed, 'updated').text).toBe('2025-10-05T00:00:00.000Z');
+    expect(children(feed, 'entry')).toEqual([]);
+  });
+});
+
+describe('buildJsonFeed', () => {
+  test('should include the fields JSON Feed 1.1 requires', () => {
+    const feed = JSON.parse(renderTaskFeed('json', TASKS, options()));
+
+    expect(feed).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'Torctoberfest tasks',
+      home_page_url: 'https://torctoberfest.dev/',
+      feed_url: options().feedUrl,
+    });
+    for (const item of feed.items) {
+      expect(typeof item.id).toBe('string');
+      expect(item.content_text || item.content_html).toBeTruthy();
+      expect(item.date_published).toMatch(RFC_3339);
+      expect(item.date_modified).toMatch(RFC_3339);
+    }
+  });
+
+  test('should describe each task', () => {
+    const [first, second] = buildJsonFeed(TASKS, options()).items;
+
+    expect(first).toEqual({
+      id: TASKS[0].id,
+      url: `https://torctoberfest.dev/?task=${TASKS[0].id}`,
+      external_url: TASKS[0].github_issue_url,
+      title: 'Add a unit converter',
+      summary: 'Beginner · Utility · 1-2 hours · jasonetorres/torctoberfest',
+      content_text: TASKS[0].description,
+      date_published: '2025-10-01T12:00:00.123Z',
+      date_modified: '2025-10-02T08:30:00.000Z',
+      tags: ['beginner', 'utility', 'javascript'],
+    });
+    expect(second).not.toHaveProperty('external_url');
+    expect(second.content_text).toBe('Beginner · Documentation · jasonetorres/torctoberfest');
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Unit Tests for Task Board Filters
+ * Covers the URL round trip, the query built from a filter set (recorded by a query stand-in)
+ * and the in-memory matching used for realtime updates.
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  DEFAULT_TASK_FILTERS,
+  MAX_LABEL_FILTERS,
+  applyTaskChange,
+  applyTaskFilters,
+  applyTaskSort,
+  compareTasks,
+  matchesTaskFilters,
+  parseTaskFilters,
+  serializeTaskFilters,
+  type FilterableTask,
+  type TaskFilterQuery,
+  type TaskFilters,
+  type TaskSortQuery,
+} from '../../supabase/functions/_shared/taskFilters.ts';
+
+class RecordingQuery implements TaskFilterQuery, TaskSortQuery {
+  calls: unknown[][] = [];
+
+  private record(...call: unknown[]): this {
+    this.calls.push(call);
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.record('eq', column, value);
+  }
+  in(column: string, values: readonly unknown[]) {
+    return this.record('in', column, values);
+  }
+  is(column: string, value: null) {
+    return this.record('is', column, value);
+  }
+  not(column: string, operator: string, value: unknown) {
+    return this.record('not', column, operator, value);
+  }
+  contains(column: string, value: readonly unknown[]) {
+    return this.record('contains', column, value);
+  }
+  lte(column: string, value: unknown) {
+    return this.record('lte', column, value);
+  }
+  textSearch(column: string, query: string, options?: unknown) {
+    return this.record('textSearch', column, query, options);
+  }
+  order(column: string, options?: unknown) {
+    return this.record('order', column, options);
+  }
+}
+
+function task(id: string, overrides: Partial<FilterableTask> = {}): FilterableTask {
+  return {
+    id,
+    status: 'open',
+    difficulty: 'beginner',
+    category: 'testing',
+    labels: ['docs'],
+    repository: 'owner/repo',
+    claimed_by: null,
+    estimated_minutes_min: 60,
+    estimated_minutes_max: 120,
+    created_at: `2025-10-0${id}T00:00:00Z`,
+    updated_at: `2025-10-0${id}T00:00:00Z`,
+    ...overrides,
+  };
+}
+
+function filters(overrides: Partial<TaskFilters> = {}): TaskFilters {
+  return { ...DEFAULT_TASK_FILTERS, ...overrides };
+}
+
+describe('parseTaskFilters', () => {
+  test('should read every facet', () => {
+    const params = new URLSearchParams(
+      'q=csv&status=all&difficulty=beginner&category=testing&label=docs&label=help+wanted' +
+        '&claimed=unclaimed&blocked=hide&watchlist=1&time=afternoon&repo=owner/repo&sort=oldest'
+    );
+
+    expect(parseTaskFilters(params)).toEqual({
+      q: 'csv',
+      status: 'all',
+      difficulty: 'beginner',
+      category: 'testing',
+      labels: ['docs', 'help wanted'],
+      claim: 'unclaimed',
+      hideBlocked: true,
+      watchlist: true,
+      time: 'afternoon',
+      repository: 'owner/repo',
+      sort: 'oldest',
+    });
+  });
+
+  test('should fall back to defaults for missing or invalid values', () => {
+    const params = new URLSearchParams('difficulty=expert&status=archived&sort=random&repo=not-a-repo&time=forever');
+
+    expect(parseTaskFilters(params)).toEqual(DEFAULT_TASK_FILTERS);
+  });
+
+  test('should deduplicate and cap labels', () => {
+    const params = new URLSearchParams();
+    for (let i = 0; i < 20; i++) params.append('label', `label-${i}`);
+    params.append('label', 'label-0');
+    params.append('label', ' ');
+
+    expect(parseTaskFilters(params).labels).toHaveLength(MAX_LABEL_FILTERS);
+  });
+});
+
+describe('serializeTaskFilters', () => {
+  test('should leave out defaults', () => {
+    expect(serializeTaskFilters(DEFAULT_TASK_FILTERS).toString()).toBe('');
+    expect(serializeTaskFilters(filters({ difficulty: 'beginner', category: 'testing' })).toString()).toBe(
+      'difficulty=beginner&category=testing'
+    );
+  });
+
+  test('should round-trip through parseTaskFilters', () => {
+    const value = filters({ q: 'temperature units', labels: ['docs', 'a,b'], claim: 'claimed', hideBlocked: true, watchlist: true, sort: 'updated' });
+
+    expect(parseTaskFilters(serializeTaskFilters(value))).toEqual(value);
+  });
+});
+
+describe('applyTaskFilters', () => {
+  test('should only filter by status by default', () => {
+    const query = applyTaskFilters(new RecordingQuery(), DEFAULT_TASK_FILTERS);
+
+    expect(query.calls).toEqual([['in', 'status', ['open']]]);
+  });
+
+  test('should combine every facet', () => {
+    const query = applyTaskFilters(
+      new RecordingQuery(),
+      filters({
+        q: '  csv  ',
+        status: 'in-progress',
+        difficulty: 'beginner',
+        category: 'testing',
+        labels: ['docs'],
+        claim: 'claimed',
+        hideBlocked: true,
+        time: 'under-1-hour',
+        repository: 'owner/repo',
+      })
+    );
+
+    expect(query.calls).toEqual([
+      ['in', 'status', ['in-progress', 'in-review']],
+      ['textSearch', 'search_vector', 'csv', { config: 'english', type: 'websearch' }],
+      ['eq', 'difficulty', 'beginner'],
+      ['eq', 'category', 'testing'],
+      ['contains', 'labels', ['docs']],
+      ['not', 'claimed_by', 'is', null],
+      ['eq', 'blocked', false],
+      ['lte', 'estimated_minutes_max', 60],
+      ['eq', 'repository', 'owner/repo'],
+    ]);
+  });
+
+  test('should limit the watchlist to the given ids', () => {
+    expect(applyTaskFilters(new RecordingQuery(), filters({ watchlist: true }), ['a', 'b']).calls).toContainEqual([
+      'in',
+      'id',
+      ['a', 'b'],
+    ]);
+    expect(applyTaskFilters(new RecordingQuery(), filters({ watchlist: true })).calls).toContainEqual(['in', 'id', []]);
+  });
+
+  test('should match tasks without a claimant', () => {
+    const query = applyTaskFilters(new RecordingQuery(), filters({ claim: 'unclaimed' }));
+
+    expect(query.calls).toContainEqual(['is', 'claimed_by', null]);
+  });
+});
+
+describe('applyTaskSort', () => {
+  test('should order by the chosen column, then by id', () => {
+    expect(applyTaskSort(new RecordingQuery(), 'newest').calls).toEqual([
+      ['order', 'created_at', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+    ]);
+    expect(applyTaskSort(new RecordingQuery(), 'oldest').calls).toEqual([
+      ['order', 'created_at', { ascending: true }],
+      ['order', 'id', { ascending: true }],
+    ]);
+    expect(applyTaskSort(new RecordingQuery(), 'updated').calls).toEqual([
+      ['order', 'updated_at', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+    ]);
+  });
+
+  test('should put tasks without an estimate last when sorting by length', () => {
+    expect(applyTaskSort(new RecordingQuery(), 'shortest').calls).toEqual([
+      ['order', 'estimated_minutes_min', { ascending: true, nullsFirst: false }],
+      ['order', 'created_at', { ascending: false }],
+      ['order', 'id', { ascending: false }],
+    ]);
+  });
+});
+
+describe('matchesTaskFilters', () => {
+  test('should agree with the default view', () => {
+    expect(matchesTaskFilters(task('1'), DEFAULT_TASK_FILTERS)).toBe(true);
+    expect(matchesTaskFilters(task('1', { status: 'completed' }), DEFAULT_TASK_FILTERS)).toBe(false);
+  });
+
+  test('should check every facet', () => {
+    const view = filters({
+      difficulty: 'beginner',
+      category: 'testing',
+      labels: ['docs'],
+      claim: 'unclaimed',
+      hideBlocked: true,
+      time: 'afternoon',
+      repository: 'owner/repo',
+    });
+
+    expect(matchesTaskFilters(task('1'), view)).toBe(true);
+    expect(matchesTaskFilters(task('1', { blocked: true }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { difficulty: 'advanced' }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { category: 'feature' }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { labels: ['bug'] }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { claimed_by: 'octocat' }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { estimated_minutes_max: 600 }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { estimated_minutes_max: null }), view)).toBe(false);
+    expect(matchesTaskFilters(task('1', { repository: 'owner/other' }), view)).toBe(false);
+  });
+
+  test('should check the watchlist', () => {
+    expect(matchesTaskFilters(task('1'), filters({ watchlist: true }), ['1'])).toBe(true);
+    expect(matchesTaskFilters(task('1'), filters({ watchlist: true }), ['2'])).toBe(false);
+  });
+
+  test('should list tasks in review under in progress', () => {
+    expect(matchesTaskFilters(task('1', { status: 'in-review' }), filters({ status: 'in-progress' }))).toBe(true);
+  });
+});
+
+describe('compareTasks', () => {
+  test('should put tasks without an estimate last when sorting by length', () => {
+    const tasks = [task('1', { estimated_minutes_min: null }), task('2', { estimated_minutes_min: 30 }), task('3')];
+
+    expect(tasks.sort(compareTasks('shortest')).map(t => t.id)).toEqual(['2', '3', '1']);
+  });
+
+  test('should sort by recent updates', () => {
+    const tasks = [task('1', { updated_at: '2025-10-09T00:00:00Z' }), task('2'), task('3')];
+
+    expect(tasks.sort(compareTasks('updated')).map(t => t.id)).toEqual(['1', '3', '2']);
+  });
+});
+
+describe('applyTaskChange', () => {
+  const list = [task('3'), task('1')];
+
+  test('should insert a matching task in sort order', () => {
+    const next = applyTaskChange(list, { type: 'upsert', task: task('2'), matches: true }, 'newest');
+
+    expect(next.map(t => t.id)).toEqual(['3', '2', '1']);
+  });
+
+  test('should replace an updated task', () => {
+    const next = applyTaskChange(list, { type: 'upsert', task: task('1', { claimed_by: 'octocat' }), matches: true }, 'newest');
+
+    expect(next).toHaveLength(2);
+    expect(next[1].claimed_by).toBe('octocat');
+  });
+
+  test('should drop a task that no longer matches', () => {
+    const next = applyTaskChange(list, { type: 'upsert', task: task('1'), matches: false }, 'newest');
+
+    expect(next.map(t => t.id)).toEqual(['3']);
+  });
+
+  test('should leave tasks past the last loaded one to later pages', () => {
+    const older = task('0');
+
+    expect(applyTaskChange(list, { type: 'upsert', task: older, matches: true }, 'newest', false)).toEqual(list);
+    expect(applyTaskChange(list, { type: 'upsert', task: older, matches: true }, 'newest', true)).toHaveLength(3);
+  });
+
+  test('should remove deleted tasks and keep the list when nothing changed', () => {
+    expect(applyTaskChange(list, { type: 'delete', id: '3' }, 'newest').map(t => t.id)).toEqual(['1']);
+    expect(applyTaskChange(list, { type: 'delete', id: '9' }, 'newest')).toBe(list);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for Task Pagination
+ * Evaluates the keyset filters with a small PostgREST filter interpreter and checks that
+ * paging through a sorted list visits every task exactly once.
+ */
+
+import { describe, expect, test } from 'vitest';
+import { compareTasks, TASK_SORTS, type FilterableTask } from '../../supabase/functions/_shared/taskFilters.ts';
+import { keysetFilter } from '../../supabase/functions/_shared/taskPages.ts';
+
+function task(id: string, overrides: Partial<FilterableTask> = {}): FilterableTask {
+  return {
+    id,
+    status: 'open',
+    difficulty: 'beginner',
+    category: 'testing',
+    labels: [],
+    repository: 'owner/repo',
+    claimed_by: null,
+    estimated_minutes_min: null,
+    estimated_minutes_max: null,
+    created_at: '2025-10-01T00:00:00+00:00',
+    updated_at: '2025-10-01T00:00:00+00:00',
+    ...overrides,
+  };
+}
+
+/** Splits `a,b(c,d),e` on top-level commas. */
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\' && quoted) {
+      current += char + input[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Evaluates one PostgREST logic-tree condition against a row. */
+function evaluate(condition: string, row: FilterableTask): boolean {
+  const logic = condition.match(/^(and|or)\((.*)\)$/);
+  if (logic) {
+    const results = splitTopLevel(logic[2]).map(part => evaluate(part, row));
+    return logic[1] === 'and' ? results.every(Boolean) : results.some(Boolean);
+  }
+
+  const [, column, operator, raw] = condition.match(/^(\w+)\.(\w+)\.(.*)$/)!;
+  const actual = row[column as keyof FilterableTask] as string | number | null;
+  if (operator === 'is') return actual === null;
+  if (actual === null) return false;
+
+  const text = JSON.parse(raw) as string;
+  const expected = typeof actual === 'number' ? Number(text) : text;
+  switch (operator) {
+    case 'eq':
+      return actual === expected;
+    case 'lt':
+      return actual < expected;
+    case 'gt':
+      return actual > expected;
+  }
+  throw new Error(`Unsupported operator ${operator}`);
+}
+
+function rowsAfter(sort: (typeof TASK_SORTS)[number], last: FilterableTask, rows: FilterableTask[]) {
+  return rows.filter(row => evaluate(`or(${keysetFilter(sort, last)})`, row));
+}
+
+const ROWS = [
+  task('a1', { created_at: '2025-10-03T00:00:00+00:00', estimated_minutes_min: 60 }),
+  task('a2', { created_at: '2025-10-03T00:00:00+00:00', estimated_minutes_min: 60 }),
+  task('b1', { created_at: '2025-10-02T00:00:00+00:00', updated_at: '2025-10-09T00:00:00+00:00' }),
+  task('b2', { created_at: '2025-10-04T00:00:00+00:00', estimated_minutes_min: 30 }),
+  task('c1', { created_at: '2025-10-01T00:00:00+00:00', estimated_minutes_min: 60 }),
+  task('c2', { created_at: '2025-10-05T00:00:00+00:00' }),
+  task('c3', { created_at: '2025-10-05T00:00:00+00:00', updated_at: '2025-10-09T00:00:00+00:00' }),
+];
+
+describe('keysetFilter', () => {
+  test('should continue after the last row when sorted by newest', () => {
+    expect(keysetFilter('newest', task('a1'))).toBe(
+      'created_at.lt."2025-10-01T00:00:00+00:00",and(created_at.eq."2025-10-01T00:00:00+00:00",id.lt."a1")'
+    );
+  });
+
+  test('should let rows without an estimate follow rows with one', () => {
+    expect(keysetFilter('shortest', task('a1', { estimated_minutes_min: 60 }))).toContain('estimated_minutes_min.is.null');
+    expect(keysetFilter('shortest', task('a1'))).toMatch(/^and\(estimated_minutes_min\.is\.null,/);
+  });
+
+  test('should escape quotes in values', () => {
+    expect(keysetFilter('oldest', task('x"y'))).toContain('id.gt."x\\"y"');
+  });
+
+  for (const sort of TASK_SORTS) {
+    test(`should page through every task once when sorted by ${sort}`, () => {
+      const sorted = [...ROWS].sort(compareTasks(sort));
+
+      sorted.forEach((last, index) => {
+        expect(rowsAfter(sort, last, ROWS).sort(compareTasks(sort))).toEqual(sorted.slice(index + 1));
+      });
+    });
+  }
+});
@@ -0,0 +1,221 @@
+/**
+ * Unit Tests for the Task Status State Machine
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  claimTask,
+  adjustTabCounts,
+  reconcileTask,
+  releaseTask,
+  restoreTask,
+  statusesForTab,
+  transitionTask,
+  type TaskState,
+} from '../../supabase/functions/_shared/taskStatus.ts';
+
+const open: TaskState = { status: 'open', claimed_by: null };
+const claimed: TaskState = { status: 'in-progress', claimed_by: 'octocat' };
+const completed: TaskState = { status: 'completed', claimed_by: 'octocat' };
+
+describe('transitionTask', () => {
+  describe('opened', () => {
+    test('should create an open task', () => {
+      expect(transitionTask(null, 'opened', { assignee: null })).toEqual(open);
+    });
+
+    test('should create an in-progress task when opened with an assignee', () => {
+      expect(transitionTask(null, 'opened', { assignee: 'octocat' })).toEqual(claimed);
+    });
+  });
+
+  describe('closed', () => {
+    test('should complete the task', () => {
+      expect(transitionTask(claimed, 'closed', { assignee: 'octocat', stateReason: 'completed' })).toEqual(completed);
+    });
+
+    test('should archive the task when closed as not planned', () => {
+      expect(transitionTask(open, 'closed', { assignee: null, stateReason: 'not_planned' })).toEqual({
+        status: 'archived',
+        claimed_by: null,
+      });
+    });
+
+    test('should ignore closing an unknown task', () => {
+      expect(transitionTask(null, 'closed', { assignee: null })).toBeNull();
+    });
+  });
+
+  describe('reopened', () => {
+    test('should reopen a completed task without an assignee', () => {
+      expect(transitionTask(completed, 'reopened', { assignee: null })).toEqual(open);
+    });
+
+    test('should put a reopened task back in progress when still assigned', () => {
+      expect(transitionTask(completed, 'reopened', { assignee: 'octocat' })).toEqual(claimed);
+    });
+  });
+
+  describe('assigned and unassigned', () => {
+    test('should claim an open task', () => {
+      expect(transitionTask(open, 'assigned', { assignee: 'octocat' })).toEqual(claimed);
+    });
+
+    test('should release the claim when the last assignee is removed', () => {
+      expect(transitionTask(claimed, 'unassigned', { assignee: null })).toEqual(open);
+    });
+
+    test('should hand the claim to a remaining assignee', () => {
+      expect(transitionTask(claimed, 'unassigned', { assignee: 'hubot' })).toEqual({
+        status: 'in-progress',
+        claimed_by: 'hubot',
+      });
+    });
+
+    test('should keep a task in review when its assignee changes', () => {
+      const inReview: TaskState = { status: 'in-review', claimed_by: 'octocat' };
+      expect(transitionTask(inReview, 'assigned', { assignee: 'hubot' })).toEqual({
+        status: 'in-review',
+        claimed_by: 'hubot',
+      });
+    });
+
+    test('should keep a completed task completed', () => {
+      expect(transitionTask(completed, 'unassigned', { assignee: null })).toEqual({
+        status: 'completed',
+        claimed_by: null,
+      });
+    });
+  });
+
+  describe('deleted and transferred', () => {
+    test('should archive a deleted issue', () => {
+      expect(transitionTask(claimed, 'deleted', { assignee: 'octocat' })).toEqual({
+        status: 'archived',
+        claimed_by: 'octocat',
+      });
+    });
+
+    test('should archive a transferred issue', () => {
+      expect(transitionTask(open, 'transferred', { assignee: null })).toEqual({
+        status: 'archived',
+        claimed_by: null,
+      });
+    });
+
+    test('should ignore deleting an unknown task', () => {
+      expect(transitionTask(null, 'deleted', { assignee: null })).toBeNull();
+    });
+  });
+
+  describe('passive actions', () => {
+    test('should keep the current state when an issue is edited', () => {
+      expect(transitionTask(claimed, 'edited', { assignee: 'octocat' })).toEqual(claimed);
+    });
+
+    test('should keep the current state for labels, pins and locks', () => {
+      for (const action of ['labeled', 'unlabeled', 'pinned', 'locked', 'milestoned']) {
+        expect(transitionTask(completed, action, { assignee: 'octocat' })).toEqual(completed);
+      }
+    });
+
+    test('should derive a state for an edited issue that has no task yet', () => {
+      expect(transitionTask(null, 'edited', { assignee: null })).toEqual(open);
+    });
+  });
+
+  test('should ignore unknown actions', () => {
+    expect(transitionTask(open, 'typed', { assignee: null })).toBeNull();
+  });
+});
+
+describe('claimTask', () => {
+  test('should claim an open task for the signed-in user', () => {
+    expect(claimTask(open, 'octocat')).toEqual(claimed);
+  });
+
+  test('should refuse a task that is already claimed', () => {
+    expect(claimTask(claimed, 'hubot')).toBeNull();
+    expect(claimTask({ status: 'open', claimed_by: 'hubot' }, 'octocat')).toBeNull();
+  });
+
+  test('should refuse tasks that are not open', () => {
+    expect(claimTask({ status: 'completed', claimed_by: null }, 'octocat')).toBeNull();
+  });
+});
+
+describe('releaseTask', () => {
+  test('should release your own claim', () => {
+    expect(releaseTask(claimed, 'octocat')).toEqual(open);
+  });
+
+  test("should refuse to release someone else's claim", () => {
+    expect(releaseTask(claimed, 'hubot')).toBeNull();
+  });
+
+  test('should refuse to release a task in review', () => {
+    expect(releaseTask({ status: 'in-review', claimed_by: 'octocat' }, 'octocat')).toBeNull();
+  });
+});
+
+describe('restoreTask', () => {
+  test('should reopen an unclaimed task', () => {
+    expect(restoreTask({ status: 'archived', claimed_by: null })).toEqual(open);
+  });
+
+  test('should give a claimed task back to its claimant', () => {
+    expect(restoreTask({ status: 'archived', claimed_by: 'octocat' })).toEqual(claimed);
+  });
+
+  test('should refuse tasks that are not archived', () => {
+    expect(restoreTask(completed)).toBeNull();
+  });
+});
+
+describe('reconcileTask', () => {
+  test('should keep a board claim when the issue has no assignee', () => {
+    expect(reconcileTask(claimed, { state: 'open', assignee: null })).toEqual(claimed);
+  });
+
+  test('should follow the issue assignee', () => {
+    expect(reconcileTask(open, { state: 'open', assignee: 'hubot' })).toEqual({
+      status: 'in-progress',
+      claimed_by: 'hubot',
+    });
+  });
+
+  test('should reopen a completed task whose issue is open again', () => {
+    expect(reconcileTask(completed, { state: 'open', assignee: null })).toEqual(open);
+  });
+
+  test('should keep an archived task archived while its issue is open', () => {
+    const archived: TaskState = { status: 'archived', claimed_by: 'octocat' };
+
+    expect(reconcileTask(archived, { state: 'open', assignee: null })).toEqual(archived);
+    expect(reconcileTask(archived, { state: 'open', assignee: 'hubot' })).toEqual(archived);
+  });
+
+  test('should complete a task whose issue was closed', () => {
+    expect(reconcileTask(claimed, { state: 'closed', assignee: 'octocat', stateReason: 'completed' })).toEqual(completed);
+  });
+});
+
+describe('status tabs', () => {
+  test('should list tasks in review under in progress', () => {
+    expect(statusesForTab('in-progress')).toEqual(['in-progress', 'in-review']);
+  });
+
+  test('should never list archived tasks', () => {
+    expect(statusesForTab('all')).not.toContain('archived');
+  });
+
+  test('should move a task between tab counts', () => {
+    const counts = { 'open': 2, 'in-progress': 2, 'completed': 1, 'all': 5 };
+
+    expect(adjustTabCounts(counts, 'open', 'in-progress')).toEqual({ 'open': 1, 'in-progress': 3, 'completed': 1, 'all': 5 });
+    expect(adjustTabCounts(counts, 'in-progress', 'in-review')).toEqual(counts);
+    expect(adjustTabCounts(counts, null, 'completed')).toEqual({ 'open': 2, 'in-progress': 2, 'completed': 2, 'all': 6 });
+    expect(adjustTabCounts(counts, 'open', null)).toEqual({ 'open': 1, 'in-progress': 2, 'completed': 1, 'all': 4 });
+    expect(adjustTabCounts(counts, null, 'archived')).toEqual(counts);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for the Watchlist
+ */
+
+import { describe, expect, test } from 'vitest';
+import {
+  MAX_WATCHED_TASKS,
+  describeWatchedChange,
+  parseWatchlist,
+  type WatchedTaskState,
+} from '../../supabase/functions/_shared/watchlist.ts';
+
+function state(overrides: Partial<WatchedTaskState> = {}): WatchedTaskState {
+  return { title: 'CSV converter', status: 'open', claimed_by: null, ...overrides };
+}
+
+describe('describeWatchedChange', () => {
+  test('should announce claims and released claims', () => {
+    const claimed = state({ status: 'in-progress', claimed_by: 'octocat' });
+
+    expect(describeWatchedChange(state(), claimed)).toEqual({ kind: 'claimed', message: 'octocat claimed "CSV converter"' });
+    expect(describeWatchedChange(claimed, state())).toEqual({ kind: 'released', message: '"CSV converter" is available again' });
+    expect(describeWatchedChange(claimed, state({ status: 'in-progress', claimed_by: 'hubot' }))).toMatchObject({
+      kind: 'claimed',
+      message: 'hubot claimed "CSV converter"',
+    });
+  });
+
+  test('should announce completed and closed tasks', () => {
+    const claimed = state({ status: 'in-review', claimed_by: 'octocat' });
+
+    expect(describeWatchedChange(claimed, state({ status: 'completed', claimed_by: 'octocat' }))).toEqual({
+      kind: 'closed',
+      message: '"CSV converter" was completed',
+    });
+    expect(describeWatchedChange(state(), state({ status: 'archived' }))).toMatchObject({ message: '"CSV converter" was closed' });
+  });
+
+  test("should stay quiet about other changes and the viewer's own claims", () => {
+    const claimed = state({ status: 'in-progress', claimed_by: 'octocat' });
+
+    expect(describeWatchedChange(state(), state({ title: 'Renamed' }))).toBeNull();
+    expect(describeWatchedChange(claimed, state({ status: 'in-review', claimed_by: 'octocat' }))).toBeNull();
+    expect(describeWatchedChange(state(), claimed, 'octocat')).toBeNull();
+    expect(describeWatchedChange(claimed, state(), 'octocat')).toBeNull();
+  });
+});
+
+describe('parseWatchlist', () => {
+  test('should read stored ids without duplicates', () => {
+    expect(parseWatchlist(JSON.stringify(['a', 'b', 'a', '', 3]))).toEqual(['a', 'b']);
+  });
+
+  test('should cap the list', () => {
+    const ids = Array.from({ length: MAX_WATCHED_TASKS + 5 }, (_, i) => `task-${i}`);
+
+    expect(parseWatchlist(JSON.stringify(ids))).toHaveLength(MAX_WATCHED_TASKS);
+  });
+
+  test('should ignore missing or broken values', () => {
+    expect(parseWatchlist(null)).toEqual([]);
+    expect(parseWatchlist('{')).toEqual([]);
+    expect(parseWatchlist('{"a":1}')).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for GitHub Webhook Verification
+ * Fixtures are recorded deliveries signed with the secret "torc-test-secret".
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import {
+  computeSignature,
+  processDelivery,
+  timingSafeEqual,
+  verifySignature,
+  verifyWebhook,
+  type DeliveryLog,
+} from '../../supabase/functions/_shared/webhookSignature.ts';
+
+const SECRET = 'torc-test-secret';
+
+function loadFixture(name: string) {
+  const body = readFileSync(new URL(`../fixtures/github/${name}.json`, import.meta.url), 'utf8');
+  const headers = JSON.parse(
+    readFileSync(new URL(`../fixtures/github/${name}.headers.json`, import.meta.url), 'utf8')
+  );
+  return { body, headers: new Headers(headers) };
+}
+
+function memoryDeliveryLog(): DeliveryLog {
+  const seen = new Set<string>();
+  return {
+    async register(deliveryId) {
+      if (seen.has(deliveryId)) {
+        return false;
+      }
+      seen.add(deliveryId);
+      return true;
+    },
+    async release(deliveryId) {
+      seen.delete(deliveryId);
+    },
+  };
+}
+
+describe('computeSignature', () => {
+  test('should match the signature GitHub sent for a recorded delivery', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    expect(await computeSignature(SECRET, body)).toBe(headers.get('X-Hub-Signature-256'));
+  });
+
+  test('should prefix the hex digest with sha256=', async () => {
+    const signature = await computeSignature(SECRET, '{}');
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+  });
+});
+
+describe('timingSafeEqual', () => {
+  test('should return true for identical strings', () => {
+    expect(timingSafeEqual('sha256=abc', 'sha256=abc')).toBe(true);
+  });
+
+  test('should return false for different strings of equal length', () => {
+    expect(timingSafeEqual('sha256=abc', 'sha256=abd')).toBe(false);
+  });
+
+  test('should return false for strings of different length', () => {
+    expect(timingSafeEqual('sha256=abc', 'sha256=abcd')).toBe(false);
+    expect(timingSafeEqual('', 'a')).toBe(false);
+  });
+});
+
+describe('verifySignature', () => {
+  test('should reject a missing header', async () => {
+    expect(await verifySignature(SECRET, '{}', null)).toBe(false);
+  });
+
+  test('should reject the legacy sha1 header format', async () => {
+    expect(await verifySignature(SECRET, '{}', 'sha1=0123456789abcdef')).toBe(false);
+  });
+
+  test('should reject a payload that was modified after signing', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    const tampered = body.replace('"beginner"', '"advanced"');
+    expect(await verifySignature(SECRET, tampered, headers.get('X-Hub-Signature-256'))).toBe(false);
+  });
+
+  test('should reject a signature made with another secret', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    expect(await verifySignature('wrong-secret', body, headers.get('X-Hub-Signature-256'))).toBe(false);
+  });
+});
+
+describe('verifyWebhook', () => {
+  test('should accept a correctly signed delivery', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    const result = await verifyWebhook({ secret: SECRET, body, headers, deliveries: memoryDeliveryLog() });
+
+    expect(result).toEqual({
+      ok: true,
+      deliveryId: '72d3162e-cc78-11e3-81ab-4c9367dc0958',
+      event: 'issues',
+    });
+  });
+
+  test('should respond 401 when the signature does not match', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    headers.set('X-Hub-Signature-256', 'sha256=' + '0'.repeat(64));
+    const result = await verifyWebhook({ secret: SECRET, body, headers, deliveries: memoryDeliveryLog() });
+
+    expect(result).toMatchObject({ ok: false, status: 401 });
+  });
+
+  test('should respond 401 when the signature header is absent', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    headers.delete('X-Hub-Signature-256');
+    const result = await verifyWebhook({ secret: SECRET, body, headers, deliveries: memoryDeliveryLog() });
+
+    expect(result).toMatchObject({ ok: false, status: 401 });
+  });
+
+  test('should respond 400 when the delivery id is absent', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    headers.delete('X-GitHub-Delivery');
+    const result = await verifyWebhook({ secret: SECRET, body, headers, deliveries: memoryDeliveryLog() });
+
+    expect(result).toMatchObject({ ok: false, status: 400 });
+  });
+
+  test('should respond 409 when the same delivery is replayed', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    const deliveries = memoryDeliveryLog();
+
+    const first = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+    const replay = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+
+    expect(first.ok).toBe(true);
+    expect(replay).toMatchObject({ ok: false, status: 409 });
+  });
+
+  test('should not record the delivery id of a forged request', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    const deliveries = memoryDeliveryLog();
+    const forged = new Headers(headers);
+    forged.set('X-Hub-Signature-256', 'sha256=' + 'f'.repeat(64));
+
+    await verifyWebhook({ secret: SECRET, body, headers: forged, deliveries });
+    const genuine = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+
+    expect(genuine.ok).toBe(true);
+  });
+});
+
+describe('processDelivery', () => {
+  test('should accept a redelivery of a delivery that failed', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    const deliveries = memoryDeliveryLog();
+
+    const first = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+    if (!first.ok) throw new Error('Expected the first delivery to verify');
+    await expect(
+      processDelivery(deliveries, first.deliveryId, async () => {
+        throw new Error('Database unavailable');
+      })
+    ).rejects.toThrow('Database unavailable');
+
+    const redelivery = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+    expect(redelivery.ok).toBe(true);
+  });
+
+  test('should keep the delivery id once processing succeeds', async () => {
+    const { body, headers } = loadFixture('issues-opened');
+    const deliveries = memoryDeliveryLog();
+
+    const first = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+    if (!first.ok) throw new Error('Expected the first delivery to verify');
+    expect(await processDelivery(deliveries, first.deliveryId, async () => 'applied')).toBe('applied');
+
+    const replay = await verifyWebhook({ secret: SECRET, body, headers, deliveries });
+    expect(replay).toMatchObject({ ok: false, status: 409 });
+  });
+});